@@ -0,0 +1,109 @@
+// Keeps the app shell cached so the menu, bot games and pass-and-play load
+// without a connection. Online play still needs the game server.
+
+// Bump to throw away everything cached by older versions
+const CACHE = "streg-shell-v2";
+const PAGES = ["/", "/stats", "/settings"];
+const SHELL = [...PAGES, "/icon-192.png", "/icon-512.png"];
+// Scripts and stylesheets a page refers to: its tags name them in full, its
+// inline component data leaves out the "/_next/" in front
+const BUILD_ASSET = /(?:\/_next\/)?static\/(?:chunks|css|media)\/[^"'\s\\)]+/g;
+
+// The pages alone are no use offline: their scripts and styles are cached
+// too, or the first offline visit would render a page that can't load them
+async function cacheShell() {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL);
+  const pages = await Promise.all(
+    PAGES.map((path) => cache.match(path).then((page) => page.text()))
+  );
+  const assets = new Set(
+    pages
+      .flatMap((html) => html.match(BUILD_ASSET) ?? [])
+      .map((path) => `/_next/${path.replace(/^\/_next\//, "")}`)
+  );
+  // One odd match that isn't a real file mustn't cost the whole install
+  await Promise.all(
+    [...assets].map((path) => cache.add(path).catch(() => undefined))
+  );
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+  // Live data: the server list and anything the game server answers
+  if (
+    url.pathname === "/servers.json" ||
+    url.pathname.startsWith("/socket.io")
+  ) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    // Pages are rendered for the visitor's language, so prefer a fresh one;
+    // offline, any page falls back to the menu
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE).then((cache) => cache.put(request, copy));
+          return response;
+        })
+        .catch(() =>
+          caches
+            .match(request)
+            .then((cached) => cached ?? caches.match("/"))
+        )
+    );
+    return;
+  }
+
+  // Build output has hashed names and never changes, so cache wins; other
+  // files are served from cache and refreshed in the background
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      if (cached && url.pathname.startsWith("/_next/static/")) return cached;
+      const fresh = fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      });
+      if (!cached) return fresh;
+      // Offline the refresh fails, and the cached copy is all there is
+      event.waitUntil(fresh.catch(() => undefined));
+      return cached;
+    })
+  );
+});
+
+// Clicking a turn notification brings the game back to the front
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) =>
+        windows.length > 0 ? windows[0].focus() : self.clients.openWindow("/")
+      )
+  );
+});
@@ -0,0 +1,34 @@
+// Starts the local game server and `next dev` pointed at it.
+import { spawn } from "node:child_process";
+
+const port = process.env.PORT || "4000";
+const env = {
+  ...process.env,
+  NEXT_PUBLIC_BACKEND_URL: `http://localhost:${port}`,
+};
+const shell = process.platform === "win32";
+
+const children = [
+  spawn("npx", ["tsx", "server/index.ts"], {
+    stdio: "inherit",
+    env: { ...env, PORT: port },
+    shell,
+  }),
+  // next dev would otherwise pick PORT up for itself
+  spawn("npx", ["next", "dev"], {
+    stdio: "inherit",
+    env: { ...env, PORT: "3000" },
+    shell,
+  }),
+];
+
+const stop = (code) => {
+  for (const child of children) child.kill();
+  process.exit(code);
+};
+
+for (const child of children) {
+  child.on("exit", (code) => stop(code ?? 0));
+}
+process.on("SIGINT", () => stop(0));
+process.on("SIGTERM", () => stop(0));
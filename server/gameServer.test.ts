@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { io } from "socket.io-client";
+import type {
+  GameSocket,
+  ServerEvent,
+  ServerToClientEvents,
+} from "../src/lib/protocol";
+import { createGameServer, GameServer } from "./gameServer";
+
+type Payload<E extends ServerEvent> = Parameters<ServerToClientEvents[E]>[0];
+
+// Resolves with the first payload of `event` the client receives that passes
+// `check`; broadcasts can overtake each other, so waiting for "the next one"
+// is not enough
+const until = <E extends ServerEvent>(
+  socket: GameSocket,
+  event: E,
+  check: (payload: Payload<E>) => boolean
+) =>
+  new Promise<Payload<E>>((resolve) => {
+    const listener = (payload: Payload<E>) => {
+      if (!check(payload)) return;
+      socket.off(event, listener as never);
+      resolve(payload);
+    };
+    socket.on(event, listener as never);
+  });
+
+const next = <E extends ServerEvent>(socket: GameSocket, event: E) =>
+  until(socket, event, () => true);
+
+describe("the stand-in game server", () => {
+  let server: GameServer;
+  let url: string;
+  const clients: GameSocket[] = [];
+
+  const connect = async () => {
+    const socket: GameSocket = io(url, {
+      transports: ["websocket"],
+      forceNew: true,
+    });
+    clients.push(socket);
+    await new Promise<void>((resolve) => socket.once("connect", resolve));
+    return socket;
+  };
+
+  before(async () => {
+    server = createGameServer({ seatGracePeriod: 0 });
+    url = `http://localhost:${await server.listen(0)}`;
+  });
+
+  after(async () => {
+    for (const socket of clients) socket.disconnect();
+    await server.close();
+  });
+
+  test("two players play a lobby through to the end", async () => {
+    const alice = await connect();
+    const bob = await connect();
+
+    const created = next(alice, "lobbyCreated");
+    alice.emit("createLobby", { boardSize: 10 });
+    const code = await created;
+
+    const aliceJoined = next(alice, "lobbyJoined");
+    alice.emit("joinLobby", { code, playerName: "Alice", token: "token-a" });
+    await aliceJoined;
+
+    const bothSeated = until(alice, "playerList", (list) => list.length === 2);
+    bob.emit("joinLobby", { code, playerName: "Bob", token: "token-b" });
+    const players = await bothSeated;
+    assert.deepEqual(
+      players.map((p) => p.name),
+      ["Alice", "Bob"]
+    );
+
+    const bobPicked = until(alice, "playerList", (list) =>
+      list.every((p) => p.selectedNumbers.length > 0)
+    );
+    alice.emit("selectNumber", 3);
+    bob.emit("selectNumber", 7);
+    await bobPicked;
+
+    const started = next(bob, "gameStarted");
+    alice.emit("startGame");
+    const { currentTurn } = await started;
+    assert.equal(currentTurn, alice.id);
+
+    // Alice takes out Bob's number, which ends a two-player game
+    const aliceOver = next(alice, "gameOver");
+    const bobOver = next(bob, "gameOver");
+    alice.emit("eliminateNumber", 7);
+    const [forAlice, forBob] = await Promise.all([aliceOver, bobOver]);
+    assert.deepEqual(forAlice, forBob);
+    assert.deepEqual(
+      forAlice.placements.map((p) => [p.name, p.placement]),
+      [
+        ["Bob", 1],
+        ["Alice", 2],
+      ]
+    );
+  });
+
+  test("malformed requests are refused without taking the server down", async () => {
+    const socket = await connect();
+    const refused = next(socket, "error");
+    // Sent without arguments, as a broken or hostile client might
+    (socket.emit as (event: string) => void)("createLobby");
+    assert.equal((await refused).code, "invalid-request");
+
+    const created = next(socket, "lobbyCreated");
+    socket.emit("createLobby", { boardSize: 10 });
+    assert.equal(typeof (await created), "string");
+  });
+});
@@ -0,0 +1,58 @@
+import { createServer, Server as HttpServer } from "http";
+import { Server } from "socket.io";
+import { createLobbyHub, HubOptions } from "../src/lib/hub";
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+} from "../src/lib/protocol";
+
+type GameIo = Server<ClientToServerEvents, ServerToClientEvents>;
+
+export type GameServerOptions = HubOptions;
+
+export interface GameServer {
+  io: GameIo;
+  http: HttpServer;
+  listen(port: number): Promise<number>;
+  close(): Promise<void>;
+}
+
+/**
+ * A stand-in for the hosted backend: speaks the same socket.io protocol and
+ * enforces the same rules, but keeps everything in memory.
+ */
+export function createGameServer(options: GameServerOptions = {}): GameServer {
+  const http = createServer();
+  const io: GameIo = new Server(http, { cors: { origin: "*" } });
+  // Every socket sits in a room named after its id, so this reaches just them
+  const hub = createLobbyHub(
+    (id, event, ...args) => io.to(id).emit(event, ...args),
+    options
+  );
+
+  io.on("connection", (socket) => {
+    // The hub checks every payload, so a malformed event gets an error back
+    // instead of throwing here
+    socket.onAny((event: string, ...args: unknown[]) =>
+      hub.handle(socket.id, event, args)
+    );
+    socket.on("disconnect", () => hub.disconnect(socket.id));
+  });
+
+  return {
+    io,
+    http,
+    listen: (port) =>
+      new Promise((resolve) => {
+        http.listen(port, () => {
+          const address = http.address();
+          resolve(typeof address === "object" && address ? address.port : port);
+        });
+      }),
+    close: () =>
+      new Promise((resolve) => {
+        hub.dispose();
+        io.close(() => resolve());
+      }),
+  };
+}
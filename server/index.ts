@@ -0,0 +1,9 @@
+import { createGameServer } from "./gameServer";
+
+const port = Number(process.env.PORT) || 4000;
+
+createGameServer()
+  .listen(port)
+  .then((actualPort) => {
+    console.log(`Local game server listening on http://localhost:${actualPort}`);
+  });
@@ -1,5 +1,9 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies, headers } from "next/headers";
+import LocaleProvider from "@/components/LocaleProvider";
+import ServiceWorker from "@/components/ServiceWorker";
+import { LOCALE_COOKIE, resolveLocale } from "@/lib/i18n";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,21 +17,31 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "Streg",
+  description: "A number elimination game.",
+  appleWebApp: { capable: true, title: "Streg" },
 };
 
-export default function RootLayout({
+export const viewport: Viewport = {
+  themeColor: "#1d4ed8",
+};
+
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = resolveLocale(
+    (await cookies()).get(LOCALE_COOKIE)?.value,
+    (await headers()).get("accept-language")
+  );
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <LocaleProvider initialLocale={locale}>{children}</LocaleProvider>
+        <ServiceWorker />
       </body>
     </html>
   );
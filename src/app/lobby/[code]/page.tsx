@@ -0,0 +1,15 @@
+import Game from '@/components/Game';
+import { parseLobbyCode } from '@/lib/invite';
+
+export default async function LobbyInvite({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const { code } = await params;
+  return (
+    <main>
+      <Game inviteCode={parseLobbyCode(code)} />
+    </main>
+  );
+}
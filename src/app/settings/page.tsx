@@ -0,0 +1,9 @@
+import SettingsScreen from '@/components/SettingsScreen';
+
+export default function Settings() {
+  return (
+    <main>
+      <SettingsScreen />
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+import StatsScreen from '@/components/StatsScreen';
+
+export default function Stats() {
+  return (
+    <main>
+      <StatsScreen />
+    </main>
+  );
+}
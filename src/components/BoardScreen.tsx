@@ -0,0 +1,387 @@
+"use client";
+
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { useI18n } from "@/components/LocaleProvider";
+import MoveHistory from "@/components/MoveHistory";
+import NumberGrid from "@/components/NumberGrid";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import ReactionBubbles from "@/components/ReactionBubbles";
+import RiskAssistant from "@/components/RiskAssistant";
+import SpectatorList from "@/components/SpectatorList";
+import TurnCountdown, {
+  useTurnCountdown,
+  WARNING_SECONDS,
+} from "@/components/TurnCountdown";
+import { eliminationMarks, playerColor } from "@/lib/boardMarks";
+import { createBoard } from "@/lib/engine";
+import { boardHint } from "@/lib/errors";
+import { describeMove, formatChance, getPlacementText } from "@/lib/format";
+import { findMe, GameState, isMyTurn } from "@/lib/gameReducer";
+import { assessMoves, bestMove, type CandidateRisk } from "@/lib/risk";
+import { numbersOf, placementNumbers } from "@/lib/variants";
+
+// Hotter tiles are likelier to knock someone out
+function riskTint(knockoutChance: number | undefined) {
+  if (knockoutChance === undefined) return "bg-white";
+  if (knockoutChance >= 0.5) return "bg-indigo-300";
+  if (knockoutChance >= 0.25) return "bg-indigo-200";
+  if (knockoutChance > 0) return "bg-indigo-100";
+  return "bg-white";
+}
+
+interface BoardScreenProps {
+  state: GameState;
+  onEliminate: (number: number) => void;
+  chat: ReactNode;
+}
+
+export default function BoardScreen({
+  state,
+  onEliminate,
+  chat,
+}: BoardScreenProps) {
+  const { elimination, timeout, players } = state;
+  const i18n = useI18n();
+  const { t, locale } = i18n;
+  const hint = boardHint(state.error, i18n);
+  const me = findMe(state);
+  const myNumbers = me ? numbersOf(me) : [];
+  // Going out is a win in the classic game, a loss when the last survivor wins
+  const outWins = state.variant.lastSurvivor === "loses";
+  const myTurn = isMyTurn(state);
+  const currentPlayer = players.find((p) => p.id === state.currentTurn);
+  const secondsLeft = useTurnCountdown(state.turnTimeLeft, state.turnCount);
+  // Eliminated numbers stay on the board, struck through in the colour of
+  // whoever took them off
+  const board = createBoard(state.boardSize, state.variant.rangeStart);
+  const remaining = new Set(state.numbers);
+  const marks = eliminationMarks(state.moves);
+  const lastMove = state.moves.at(-1);
+  const lastCleared = lastMove
+    ? [...marks].filter(([, m]) => m.turn === lastMove.turn).map(([n]) => n)
+    : [];
+  const knockedOutNow = lastMove?.knockedOut ?? [];
+  const knockoutNumbers = knockedOutNow.flatMap(placementNumbers);
+
+  // The risk assistant is opt-in per player, and only if the host allows it
+  const [assistantOn, setAssistantOn] = useState(false);
+  const [focused, setFocused] = useState<number | null>(null);
+  const canUseAssistant =
+    state.assistant && state.role === "player" && !!me && !me.isEliminated;
+  const showAssistant = canUseAssistant && assistantOn;
+  const { numbers, boardSize, variant, myId, currentTurn } = state;
+  const wanted = showAssistant && myTurn;
+  // The player list is re-sent for chat, reactions and reconnects, none of
+  // which change the odds; only a knockout does
+  const playersRef = useRef(players);
+  useEffect(() => {
+    playersRef.current = players;
+  }, [players]);
+  const knockedOut = players
+    .filter((p) => p.isEliminated)
+    .map((p) => p.seatId)
+    .join();
+  const [assessed, setAssessed] = useState<{
+    numbers: number[];
+    risks: CandidateRisk[];
+  } | null>(null);
+  useEffect(() => {
+    if (!wanted || !myId) return;
+    const controller = new AbortController();
+    const players = playersRef.current;
+    assessMoves(
+      { numbers, boardSize, variant, players, myId },
+      controller.signal
+    ).then((risks) => {
+      if (risks) setAssessed({ numbers, risks });
+    });
+    return () => controller.abort();
+  }, [wanted, numbers, boardSize, variant, myId, currentTurn, knockedOut]);
+  const thinking = wanted && assessed?.numbers !== numbers;
+  const risks = wanted && !thinking ? assessed?.risks ?? [] : [];
+  const riskOf = new Map(risks.map((r) => [r.number, r]));
+  const best = bestMove(risks);
+  const shownRisk = (focused !== null && riskOf.get(focused)) || best;
+
+  return (
+    <div className="min-h-screen p-8 bg-gray-100">
+      <div className="max-w-6xl mx-auto lg:flex lg:items-start lg:gap-6">
+        <div className="flex-1 max-w-4xl mx-auto">
+          {elimination && (
+            <div className="bg-green-100 p-4 rounded-lg shadow-lg text-center mb-6 border-2 border-green-700">
+              <p className="text-green-900 font-bold text-lg">
+                {t("board.knockedOut", {
+                  name: elimination.playerName,
+                  place: getPlacementText(elimination.placement, locale),
+                  number: elimination.number,
+                })}
+              </p>
+            </div>
+          )}
+          {timeout && (
+            <div className="bg-yellow-100 p-4 rounded-lg shadow-lg text-center mb-6 border-2 border-yellow-700">
+              <p className="text-yellow-900 font-bold text-lg">
+                {t("board.timedOut", { name: timeout.playerName })}{" "}
+                {timeout.number !== null
+                  ? t("board.timeoutRandom", { number: timeout.number })
+                  : t("board.timeoutSkip")}
+              </p>
+            </div>
+          )}
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-6 border-2 border-gray-800">
+            <div className="text-center mb-4">
+              <p className="text-lg font-bold text-black">
+                {t("board.currentTurn")}{" "}
+                {currentPlayer && (
+                  <span className="inline-block align-middle mr-1">
+                    <PlayerAvatar
+                      players={players}
+                      seatId={currentPlayer.seatId}
+                      name={currentPlayer.name}
+                    />
+                  </span>
+                )}
+                <span className="text-blue-700 font-bold">
+                  {state.currentPlayerName}
+                </span>
+                {secondsLeft !== null && (
+                  <span className="ml-2">
+                    <TurnCountdown seconds={secondsLeft} large />
+                  </span>
+                )}
+              </p>
+              {myTurn && (
+                <p className="text-blue-700 font-bold">
+                  {t("board.yourTurn")}
+                </p>
+              )}
+              {myTurn && secondsLeft !== null && secondsLeft <= WARNING_SECONDS && (
+                <p className="text-red-700 font-bold animate-pulse">
+                  {t("board.hurry")}
+                </p>
+              )}
+              {state.role === "spectator" && (
+                <p className="text-gray-700 font-bold">
+                  {t("board.spectating")}
+                </p>
+              )}
+            </div>
+            <div className="flex justify-between items-center mb-1">
+              <h2 className="text-2xl font-bold text-black">
+                {t("board.title")}
+              </h2>
+              {canUseAssistant && (
+                <button
+                  onClick={() => setAssistantOn(!assistantOn)}
+                  aria-pressed={assistantOn}
+                  className={`text-sm font-bold py-1 px-3 rounded border-2 border-gray-800 ${
+                    assistantOn
+                      ? "bg-indigo-700 text-white hover:bg-indigo-900"
+                      : "bg-white text-black hover:bg-gray-200"
+                  }`}
+                >
+                  {assistantOn
+                    ? t("assistant.toggleOn")
+                    : t("assistant.toggleOff")}
+                </button>
+              )}
+            </div>
+            <p className="mb-4 text-black font-bold min-h-6">
+              {lastMove &&
+                t("board.lastMove", { move: describeMove(lastMove, i18n) })}
+            </p>
+            {hint && (
+              <p
+                role="alert"
+                className="mb-4 p-2 bg-red-100 text-red-700 border-2 border-red-700 rounded font-bold text-center"
+              >
+                {hint}
+              </p>
+            )}
+            <NumberGrid
+              boardSize={state.boardSize}
+              numbers={board}
+              label={t("board.label")}
+              renderTile={(number, tile) => {
+                // Your own numbers can't be eliminated by you
+                const isMine = myNumbers.includes(number);
+                if (!remaining.has(number)) {
+                  const mark = marks.get(number);
+                  const isLast = lastCleared.includes(number);
+                  const animation = !isLast
+                    ? ""
+                    : knockoutNumbers.includes(number)
+                    ? "tile-knockout"
+                    : "tile-eliminate";
+                  // Still a button so the keyboard can walk the whole board
+                  return (
+                    <button
+                      key={number}
+                      {...tile}
+                      aria-disabled="true"
+                      aria-label={
+                        mark
+                          ? t("board.tileEliminatedBy", {
+                              number,
+                              name: mark.playerName,
+                            })
+                          : t("board.tileEliminated", { number })
+                      }
+                      title={
+                        mark &&
+                        t("board.eliminatedBy", { name: mark.playerName })
+                      }
+                      className={`p-2 border-2 rounded text-center font-bold text-sm line-through cursor-default ${
+                        playerColor(players, mark?.seatId).tile
+                      } ${isLast ? "ring-4 ring-red-600" : ""} ${animation}`}
+                    >
+                      {number}
+                    </button>
+                  );
+                }
+                const canEliminate = myTurn && !isMine;
+                const risk = riskOf.get(number);
+                const label = [
+                  String(number),
+                  isMine && t("board.tileMine"),
+                  risk &&
+                    t("board.tileChance", {
+                      chance: formatChance(risk.knockoutChance, locale),
+                    }),
+                  risk && risk === best && t("board.tileSuggested"),
+                ].filter(Boolean);
+                return (
+                  <button
+                    key={number}
+                    {...tile}
+                    onClick={() => canEliminate && onEliminate(number)}
+                    onMouseEnter={() => setFocused(number)}
+                    onMouseLeave={() => setFocused(null)}
+                    onFocus={() => {
+                      tile.onFocus();
+                      setFocused(number);
+                    }}
+                    onBlur={() => setFocused(null)}
+                    // Not `disabled`, which would take the tile out of the
+                    // keyboard's reach
+                    aria-disabled={!canEliminate}
+                    aria-label={label.join(", ")}
+                    className={`relative p-2 border-2 rounded text-center text-black font-bold text-sm shadow-sm transition-colors duration-150
+                      ${riskTint(risk?.knockoutChance)}
+                      ${isMine ? "border-green-700 ring-2 ring-green-700" : "border-gray-800"}
+                      ${
+                        canEliminate
+                          ? "hover:bg-red-200 cursor-pointer"
+                          : "opacity-50 cursor-not-allowed"
+                      }
+                    `}
+                  >
+                    {number}
+                    {risk && (
+                      <span className="absolute top-0 right-1 text-[10px] text-indigo-900">
+                        {risk === best && "⭐ "}
+                        {formatChance(risk.knockoutChance, locale)}
+                      </span>
+                    )}
+                  </button>
+                );
+              }}
+            />
+            {showAssistant && (
+              <RiskAssistant
+                risk={shownRisk}
+                isBest={!!shownRisk && shownRisk === best}
+                myTurn={myTurn}
+                thinking={thinking}
+              />
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6 border-2 border-gray-800">
+            <h2 className="text-2xl font-bold mb-4 text-black">
+              {t("board.players")}
+            </h2>
+            <div className="space-y-2">
+              {players.map((player) => {
+                const hasTurn = player.id === state.currentTurn;
+                const justOut = knockedOutNow.some(
+                  (p) => p.seatId === player.seatId
+                );
+                return (
+                  <div
+                    key={player.seatId}
+                    className={`relative p-4 rounded flex justify-between items-center border-2 transition-colors duration-150
+                      ${
+                        player.isEliminated
+                          ? "bg-gray-100 border-gray-400"
+                          : hasTurn
+                          ? "bg-blue-100 border-blue-700"
+                          : "bg-white border-gray-800"
+                      }
+                      ${justOut ? "row-knockout" : ""}
+                    `}
+                  >
+                    <div className="flex items-center gap-3">
+                      <PlayerAvatar
+                        players={players}
+                        seatId={player.seatId}
+                        name={player.name}
+                      />
+                      <span className="font-bold text-black text-lg">
+                        {player.name}
+                      </span>
+                      {player.id === state.myId && (
+                        <span className="text-green-700 font-bold">
+                          {t("common.you")}
+                        </span>
+                      )}
+                      {player.isEliminated && (
+                        <span
+                          className={`text-sm font-bold px-3 py-1 rounded-full border ${
+                            outWins
+                              ? "bg-green-200 text-green-900 border-green-700"
+                              : "bg-red-200 text-red-900 border-red-700"
+                          }`}
+                        >
+                          {t(outWins ? "board.won" : "board.out", {
+                            place: getPlacementText(
+                              player.placement || 0,
+                              locale
+                            ),
+                          })}
+                          {numbersOf(player).length > 0 &&
+                            ` (${numbersOf(player).join(", ")})`}
+                        </span>
+                      )}
+                      {!player.isEliminated && hasTurn && (
+                        <span className="bg-blue-200 text-blue-900 text-sm font-bold px-3 py-1 rounded-full border border-blue-700">
+                          {t("board.turnBadge")}
+                        </span>
+                      )}
+                      {!player.isEliminated && hasTurn && secondsLeft !== null && (
+                        <TurnCountdown seconds={secondsLeft} />
+                      )}
+                    </div>
+                    <ReactionBubbles
+                      reactions={state.reactions}
+                      senderId={player.id}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <SpectatorList
+              spectators={state.spectators}
+              myId={state.myId}
+              reactions={state.reactions}
+            />
+          </div>
+          <div className="mt-6">{chat}</div>
+        </div>
+        <aside className="mt-6 lg:mt-0 lg:w-72 lg:sticky lg:top-8">
+          <MoveHistory moves={state.moves} />
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { FormEvent, useEffect, useRef, useState } from "react";
+import { useI18n } from "@/components/LocaleProvider";
+import { MAX_MESSAGE_LENGTH, QUICK_REACTIONS } from "@/lib/chat";
+import {
+  isMessageMuted,
+  muteKey,
+  type GameAction,
+  type GameState,
+} from "@/lib/gameReducer";
+
+interface ChatPanelProps {
+  state: GameState;
+  dispatch: (action: GameAction) => void;
+  onSend: (text: string) => void;
+  onReact: (emoji: string) => void;
+}
+
+export default function ChatPanel({
+  state,
+  dispatch,
+  onSend,
+  onReact,
+}: ChatPanelProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState("");
+  const listRef = useRef<HTMLUListElement>(null);
+  const { myId, mutedIds } = state;
+  const messages = state.chat.filter((m) => !isMessageMuted(state, m));
+  const others = [...state.players, ...state.spectators].filter(
+    (p) => p.id !== myId
+  );
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages.length]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    onSend(draft);
+    setDraft("");
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 border-2 border-gray-800">
+      <h2 className="text-xl font-bold mb-2 text-black">{t("chat.title")}</h2>
+      <ul
+        ref={listRef}
+        className="h-40 overflow-y-auto mb-2 p-2 border-2 border-gray-300 rounded bg-gray-50"
+        aria-live="polite"
+      >
+        {messages.length === 0 && (
+          <li className="text-gray-500 font-bold">{t("chat.empty")}</li>
+        )}
+        {messages.map((m) => (
+          <li key={m.id} className="text-black break-words">
+            <span
+              className={`font-bold ${
+                m.senderId === myId ? "text-green-700" : "text-blue-700"
+              }`}
+            >
+              {m.senderName}:
+            </span>{" "}
+            {m.text}
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-1 mb-2">
+        {QUICK_REACTIONS.map((emoji) => (
+          <button
+            key={emoji}
+            onClick={() => onReact(emoji)}
+            className="text-xl px-2 py-1 rounded border-2 border-gray-800 bg-white hover:bg-gray-200"
+            aria-label={t("chat.react", { emoji })}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder={t("chat.placeholder")}
+          className="flex-1 p-2 border-2 border-gray-800 rounded text-black"
+        />
+        <button
+          type="submit"
+          className="bg-blue-700 text-white font-bold px-4 py-2 rounded border-2 border-gray-800 hover:bg-blue-900"
+        >
+          {t("chat.send")}
+        </button>
+      </form>
+      {others.length > 0 && (
+        <details className="mt-2">
+          <summary className="text-black font-bold cursor-pointer">
+            {t("chat.mutePlayers")}
+          </summary>
+          <ul className="mt-1">
+            {others.map((p) => {
+              const key = muteKey(state, p.id);
+              const muted = mutedIds.includes(key);
+              return (
+                <li
+                  key={p.id}
+                  className="flex justify-between items-center text-black font-bold py-1"
+                >
+                  {p.name}
+                  <button
+                    onClick={() => dispatch({ type: "muteToggled", id: key })}
+                    className="text-sm px-2 py-1 rounded border-2 border-gray-800 bg-white hover:bg-gray-200"
+                  >
+                    {muted ? t("chat.unmute") : t("chat.mute")}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/LocaleProvider";
+import type { ConnectionStatus, GameState } from "@/lib/gameReducer";
+import type { Translator } from "@/lib/i18n";
+import type { ServerProbe } from "@/lib/servers";
+
+interface ConnectionIndicatorProps {
+  state: GameState;
+  onRetry: () => void;
+  /** Null goes back to picking the fastest server automatically. */
+  onChooseServer: (url: string | null) => void;
+}
+
+const DOT_COLORS: Record<ConnectionStatus, string> = {
+  connecting: "bg-yellow-500 animate-pulse",
+  connected: "bg-green-600",
+  reconnecting: "bg-yellow-500 animate-pulse",
+  failed: "bg-red-600",
+};
+
+function statusLabel(
+  status: ConnectionStatus,
+  latency: number | null,
+  { t }: Translator
+) {
+  switch (status) {
+    case "connecting":
+      return t("connection.connecting");
+    case "connected":
+      return latency === null
+        ? t("connection.online")
+        : t("connection.onlineLatency", { latency });
+    case "reconnecting":
+      return t("connection.reconnecting");
+    case "failed":
+      return t("connection.failed");
+  }
+}
+
+function probeLabel(probe: ServerProbe, { t }: Translator) {
+  switch (probe.status) {
+    case "probing":
+      return t("connection.probing");
+    case "reachable":
+      return t("connection.latency", { latency: probe.latency ?? "" });
+    case "unreachable":
+      return t("connection.unreachable");
+  }
+}
+
+/** A small badge in the corner showing how the connection is doing. */
+export default function ConnectionIndicator({
+  state,
+  onRetry,
+  onChooseServer,
+}: ConnectionIndicatorProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [open, setOpen] = useState(false);
+  const { connection, servers, serverChoice } = state;
+  const current = servers.find((s) => s.url === connection.serverUrl);
+
+  return (
+    <div className="fixed bottom-2 left-2 z-40 flex flex-col items-start gap-2">
+      {open && (
+        <div className="bg-white p-4 rounded-lg shadow-lg border-2 border-gray-800 text-black w-64">
+          <p className="font-bold mb-2">
+            {statusLabel(connection.status, connection.latency, i18n)}
+          </p>
+          {connection.serverUrl && (
+            <p className="text-sm mb-2 break-all">
+              {t("connection.server", {
+                name: current?.name ?? connection.serverUrl,
+              })}
+            </p>
+          )}
+          {connection.status === "failed" && (
+            <p className="text-sm mb-2">
+              {t("connection.wakingUp")}
+            </p>
+          )}
+          {servers.length > 1 && (
+            <fieldset className="mb-3">
+              <legend className="font-bold text-sm mb-1">
+                {t("connection.choose")}
+              </legend>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="server"
+                  checked={serverChoice === null}
+                  onChange={() => onChooseServer(null)}
+                />
+                {t("connection.fastest")}
+              </label>
+              {servers.map((server) => (
+                <label
+                  key={server.url}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <input
+                    type="radio"
+                    name="server"
+                    checked={serverChoice === server.url}
+                    onChange={() => onChooseServer(server.url)}
+                  />
+                  {server.name}
+                  <span className="ml-auto text-gray-600">
+                    {probeLabel(server, i18n)}
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+          )}
+          <button
+            className="w-full bg-blue-700 text-white font-bold py-1 px-3 rounded border-2 border-gray-800 hover:bg-blue-900"
+            onClick={onRetry}
+          >
+            {t("connection.reconnect")}
+          </button>
+        </div>
+      )}
+      <button
+        className="flex items-center gap-2 bg-white px-3 py-1 rounded-full border-2 border-gray-800 text-black text-sm font-bold shadow"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        <span
+          className={`w-3 h-3 rounded-full ${DOT_COLORS[connection.status]}`}
+        />
+        <span aria-live="polite">
+          {statusLabel(connection.status, connection.latency, i18n)}
+        </span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@/components/LocaleProvider";
+import { loadSettings, saveSettings } from "@/lib/settings";
+
+/** Switches high-contrast mode, styled by `.high-contrast` in globals.css. */
+export default function ContrastToggle() {
+  const { t } = useI18n();
+  const [highContrast, setHighContrast] = useState(false);
+
+  useEffect(() => {
+    setHighContrast(loadSettings().highContrast);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle("high-contrast", highContrast);
+  }, [highContrast]);
+
+  const toggle = () => {
+    saveSettings({ highContrast: !highContrast });
+    setHighContrast(!highContrast);
+  };
+
+  return (
+    <button
+      onClick={toggle}
+      aria-pressed={highContrast}
+      className="fixed bottom-2 right-2 z-40 bg-white text-black text-sm font-bold py-1 px-3 rounded-full border-2 border-gray-800 shadow hover:bg-gray-200"
+    >
+      {t("common.highContrast")}
+    </button>
+  );
+}
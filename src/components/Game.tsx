@@ -1,765 +1,598 @@
 "use client";
 
-import { useEffect, useState, useRef } from "react";
-import { io, Socket } from "socket.io-client";
-
-interface Player {
-  name: string;
-  selectedNumber: number | null;
-  isEliminated: boolean;
-  placement: number | null;
-  id: string;
+import { useCallback, useEffect, useReducer, useRef, useState } from "react";
+import BoardScreen from "@/components/BoardScreen";
+import ChatPanel from "@/components/ChatPanel";
+import ConnectionIndicator from "@/components/ConnectionIndicator";
+import ContrastToggle from "@/components/ContrastToggle";
+import GameOverScreen from "@/components/GameOverScreen";
+import HandoffScreen from "@/components/HandoffScreen";
+import { useI18n } from "@/components/LocaleProvider";
+import LobbyScreen from "@/components/LobbyScreen";
+import MenuScreen, { BotGameSettings } from "@/components/MenuScreen";
+import ReplayScreen from "@/components/ReplayScreen";
+import StatusScreen from "@/components/StatusScreen";
+import Toast from "@/components/Toast";
+import {
+  findMe,
+  gameReducer,
+  initGameState,
+  isAwaitingServer,
+  isMyTurn,
+  toServerHandlers,
+} from "@/lib/gameReducer";
+import { announcement } from "@/lib/announcements";
+import { errorDisplay, errorText } from "@/lib/errors";
+import { HotSeatGame, HotSeatOptions } from "@/lib/hotSeat";
+import { LOCAL_PLAYER_ID, LocalGame } from "@/lib/localGame";
+import { gameAlert, showNotification } from "@/lib/notifications";
+import { loadProfile } from "@/lib/profile";
+import {
+  GameConnection,
+  CreateLobbyRequest,
+  ProtocolError,
+  ServerToClientEvents,
+} from "@/lib/protocol";
+import { browserIdentity } from "@/lib/session";
+import { loadSettings, saveSettings } from "@/lib/settings";
+import { createGameId, recordGame, summarizeGame } from "@/lib/stats";
+import { createTransport, Transport } from "@/lib/transport";
+import { hasPickedAll, numbersOf } from "@/lib/variants";
+
+const ERROR_DISPLAY_TIME = 3000;
+const BANNER_DISPLAY_TIME = 3000;
+// Matches the reaction-float animation in globals.css
+const REACTION_DISPLAY_TIME = 2000;
+// How long a create or join may go unanswered before offering to retry
+const REQUEST_TIMEOUT = 10_000;
+
+interface GameProps {
+  /** Set when the page was opened from an invite link. */
+  inviteCode?: string | null;
+  /**
+   * Where online lobbies live, e.g. an in-memory backend in tests. Must be a
+   * stable function; defaults to the transport picked by the environment.
+   */
+  transport?: () => Transport;
 }
 
-interface GameState {
-  players: Player[];
-  numbers: number[];
-  currentTurn: string | null;
-  currentPlayerName: string | null;
-  gameStarted: boolean;
-  boardSize: number;
-}
+export default function Game({
+  inviteCode = null,
+  transport = createTransport,
+}: GameProps) {
+  const [state, dispatch] = useReducer(gameReducer, inviteCode, initGameState);
+  const i18n = useI18n();
+  const { t } = i18n;
+  const transportRef = useRef<Transport | null>(null);
+  // Player token and session as the transport keeps them
+  const identity = () => transportRef.current?.identity ?? browserIdentity;
+  // Where game actions go: the transport, or a local game on this device
+  const connectionRef = useRef<GameConnection | null>(null);
+  const handlersRef = useRef<ServerToClientEvents | null>(null);
+  const localGameRef = useRef<LocalGame | HotSeatGame | null>(null);
+  // Transport listeners are registered once, so they read the latest state here
+  const stateRef = useRef(state);
+  const i18nRef = useRef(i18n);
+  // Code of the lobby we asked to join, saved as the session once confirmed
+  const pendingLobbyCode = useRef<string | null>(null);
+  // Sends the create or join request we are waiting on again
+  const retryRequest = useRef<(() => void) | null>(null);
+  // One expiry timer per floating reaction, so bursts don't reset each other
+  const reactionTimers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
 
-interface GameOverInfo {
-  placements: {
-    name: string;
-    number: number;
-    placement: number;
-  }[];
-}
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
 
-interface PlayerElimination {
-  playerName: string;
-  number: number;
-  placement: number;
-  totalPlayers: number;
-}
+  useEffect(() => {
+    i18nRef.current = i18n;
+  }, [i18n]);
 
-export default function Game() {
-  const [playerName, setPlayerName] = useState("");
-  const [boardSize, setBoardSize] = useState(20);
-  const [gameState, setGameState] = useState<GameState>({
-    players: [],
-    numbers: Array.from({ length: 20 }, (_, i) => i + 1),
-    currentTurn: null,
-    currentPlayerName: null,
-    gameStarted: false,
-    boardSize: 20
-  });
-  const [error, setError] = useState<string | null>(null);
-  const [gameOver, setGameOver] = useState<boolean>(false);
-  const [gameResult, setGameResult] = useState<"won" | "lost" | null>(null);
-  const [gameOverInfo, setGameOverInfo] = useState<GameOverInfo | null>(null);
-  const [eliminationInfo, setEliminationInfo] =
-    useState<PlayerElimination | null>(null);
-  const [showStartScreen, setShowStartScreen] = useState(true);
-  const [showInfo, setShowInfo] = useState(false);
-  const [lobbyCode, setLobbyCode] = useState<string | null>(null);
-  const [joinCodeInput, setJoinCodeInput] = useState("");
-  const [lobbyStep, setLobbyStep] = useState<
-    "menu" | "create" | "join" | "joining" | "creating"
-  >("menu");
-  const socketRef = useRef<Socket | null>(null);
-  const playerNameRef = useRef(playerName);
-  const [mySocketId, setMySocketId] = useState<string | null>(null);
-  const errorTimeout = useRef<NodeJS.Timeout | null>(null);
-  const justPickedNumber = useRef(false);
+  // Screen readers hear about turns and knockouts through a live region
+  const [announced, setAnnounced] = useState("");
+  const announcedState = useRef(state);
+  useEffect(() => {
+    const message = announcement(announcedState.current, state, i18n);
+    announcedState.current = state;
+    if (message) setAnnounced(message);
+  }, [state, i18n]);
+
+  // A player who switched tabs gets a title badge and, if they allowed it, a
+  // system notification for the events they opted into
+  const alertedState = useRef(state);
+  const unseenAlerts = useRef(0);
+  const baseTitle = useRef("");
+  useEffect(() => {
+    const alert = gameAlert(alertedState.current, state, i18n);
+    alertedState.current = state;
+    if (!alert || !document.hidden) return;
+    if (!loadSettings().notifications[alert.event]) return;
+    if (unseenAlerts.current === 0) baseTitle.current = document.title;
+    unseenAlerts.current++;
+    document.title = `(${unseenAlerts.current}) ${alert.text}`;
+    showNotification(alert.text, baseTitle.current);
+  }, [state, i18n]);
 
   useEffect(() => {
-    playerNameRef.current = playerName;
-  }, [playerName]);
+    const clearBadge = () => {
+      if (document.hidden || unseenAlerts.current === 0) return;
+      unseenAlerts.current = 0;
+      document.title = baseTitle.current;
+    };
+    document.addEventListener("visibilitychange", clearBadge);
+    return () => document.removeEventListener("visibilitychange", clearBadge);
+  }, []);
 
+  // Move focus to each new screen's heading, so keyboard and screen reader
+  // users start at the top of it rather than on a button that is gone
+  const screenRef = useRef<HTMLDivElement>(null);
+  const screenKey = state.handoff ? "handoff" : state.phase;
+  const firstScreen = useRef(true);
   useEffect(() => {
-    const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'https://streg-backend.onrender.com';
-    const newSocket = io(backendUrl);
-    socketRef.current = newSocket;
+    if (firstScreen.current) {
+      firstScreen.current = false;
+      return;
+    }
+    const heading = screenRef.current?.querySelector<HTMLElement>("h1, h2");
+    if (!heading) return;
+    heading.tabIndex = -1;
+    heading.focus();
+  }, [screenKey]);
 
-    newSocket.on("connect", () => {
-      setMySocketId(newSocket.id ?? null);
-    });
+  useEffect(() => {
+    dispatch({ type: "settingsLoaded", settings: loadSettings() });
+    dispatch({ type: "profileLoaded", profile: loadProfile() });
+  }, []);
 
-    newSocket.on("playerList", (players: Player[]) => {
-      console.log("Received player list:", players);
-      setGameState((prev) => {
-        const newState = { ...prev, players };
-        // No need to sync local selectedNumber anymore
-        console.log("Updated game state with players:", newState);
-        return newState;
-      });
+  // Reruns from scratch when the player retries or picks another server
+  const { attempt } = state.connection;
+  useEffect(() => {
+    const connection = transport();
+    transportRef.current = connection;
+    if (!localGameRef.current) connectionRef.current = connection;
+
+    const joinAfterRequest = (code: string) => {
+      pendingLobbyCode.current = code;
+      const send = () =>
+        connection.emit("joinLobby", {
+          code,
+          playerName: stateRef.current.playerName,
+          token: connection.identity.getPlayerToken(),
+          avatar: stateRef.current.avatar,
+          color: stateRef.current.color,
+        });
+      retryRequest.current = send;
+      send();
+    };
+
+    const serverHandlers = toServerHandlers(dispatch);
+    const handlers: ServerToClientEvents = {
+      ...serverHandlers,
+
+      lobbyCreated: (code) => {
+        // A retried request may be answered twice; only the first one counts
+        if (stateRef.current.phase !== "creating") return;
+        serverHandlers.lobbyCreated(code);
+        // Immediately join the lobby we just created
+        joinAfterRequest(code);
+      },
+
+      matchFound: (code) => {
+        if (stateRef.current.phase !== "matching") return;
+        serverHandlers.matchFound(code);
+        joinAfterRequest(code);
+      },
+
+      lobbyJoined: (data) => {
+        serverHandlers.lobbyJoined(data);
+        if (pendingLobbyCode.current) {
+          connection.identity.saveSession({
+            token: connection.identity.getPlayerToken(),
+            lobbyCode: pendingLobbyCode.current,
+            playerName: stateRef.current.playerName,
+          });
+          pendingLobbyCode.current = null;
+        }
+      },
+
+      sessionRestored: (snapshot) => {
+        serverHandlers.sessionRestored(snapshot);
+        pendingLobbyCode.current = null;
+        connection.identity.saveSession({
+          token: connection.identity.getPlayerToken(),
+          lobbyCode: snapshot.code,
+          playerName: stateRef.current.playerName,
+        });
+      },
+
+      kicked: (reason) => {
+        connection.identity.clearSession();
+        pendingLobbyCode.current = null;
+        serverHandlers.kicked(reason);
+      },
+
+      rejoinFailed: (reason) => {
+        connection.identity.clearSession();
+        serverHandlers.rejoinFailed(reason);
+      },
+    };
+    handlersRef.current = handlers;
+
+    connection.open({
+      handlers,
+      onConnect: (id) => {
+        dispatch({ type: "connected", id });
+        // Reclaim our seat after a refresh or a dropped connection
+        const { phase, menuStep } = stateRef.current;
+        if (phase === "menu" && menuStep === "browse") {
+          connection.emit("browseLobbies");
+        }
+        const session = connection.identity.loadSession();
+        if (session && !localGameRef.current) {
+          dispatch({ type: "rejoinStarted", playerName: session.playerName });
+          connection.emit("rejoinLobby", {
+            code: session.lobbyCode,
+            token: session.token,
+          });
+        }
+      },
+      onDisconnect: () => dispatch({ type: "disconnected" }),
+      onConnectError: () => dispatch({ type: "connectFailed" }),
+      onLatency: (latency) => dispatch({ type: "latencyMeasured", latency }),
+      onServers: (servers) => dispatch({ type: "serversProbed", servers }),
+      onServerSelected: (url) => dispatch({ type: "serverSelected", url }),
+      onProtocolError: (e: ProtocolError) => {
+        dispatch({
+          type: "errorRaised",
+          message: i18nRef.current.t("status.protocolError", {
+            event: e.event,
+          }),
+          transient: true,
+        });
+      },
     });
 
-    newSocket.on(
-      "gameStarted",
-      (data: {
-        currentTurn: string;
-        currentPlayerName: string;
-        numbers: number[];
-      }) => {
-        console.log("Received numbers from server:", data.numbers);
-        setGameState((prev) => ({
-          ...prev,
-          gameStarted: true,
-          currentTurn: data.currentTurn,
-          currentPlayerName: data.currentPlayerName,
-          numbers: data.numbers,
-        }));
-      }
+    return () => connection.close();
+  }, [transport, attempt]);
+
+  // The lobby browser gets live updates only while it is open
+  const browsing = state.phase === "menu" && state.menuStep === "browse";
+  useEffect(() => {
+    if (!browsing) return;
+    const connection = transportRef.current;
+    connection?.emit("browseLobbies");
+    return () => {
+      connection?.emit("stopBrowsing");
+    };
+  }, [browsing]);
+
+  // Every game gets an id as soon as it is seen running, including one that
+  // was already under way when we rejoined
+  useEffect(() => {
+    if (state.phase === "playing" && !state.gameId) {
+      dispatch({ type: "gameIdAssigned", id: createGameId() });
+    }
+  }, [state.phase, state.gameId]);
+
+  // Keep finished games for the stats page
+  useEffect(() => {
+    if (!state.gameOverInfo) return;
+    const game = summarizeGame(stateRef.current);
+    if (game) recordGame(game);
+  }, [state.gameOverInfo]);
+
+  useEffect(() => {
+    if (!state.error?.transient) return;
+    const timeout = setTimeout(
+      () => dispatch({ type: "errorDismissed" }),
+      ERROR_DISPLAY_TIME
     );
+    return () => clearTimeout(timeout);
+  }, [state.error]);
 
-    newSocket.on(
-      "numberEliminated",
-      (data: {
-        number: number;
-        remainingNumbers: number[];
-        currentTurn: string;
-        currentPlayerName: string;
-      }) => {
-        console.log(
-          "Received updated numbers after elimination:",
-          data.remainingNumbers
-        );
-        setGameState((prev) => ({
-          ...prev,
-          numbers: data.remainingNumbers,
-          currentTurn: data.currentTurn,
-          currentPlayerName: data.currentPlayerName,
-        }));
-      }
+  useEffect(() => {
+    if (!state.elimination) return;
+    const timeout = setTimeout(
+      () => dispatch({ type: "eliminationDismissed" }),
+      BANNER_DISPLAY_TIME
     );
+    return () => clearTimeout(timeout);
+  }, [state.elimination]);
 
-    newSocket.on("error", (message: string) => {
-      console.log("Received error from backend:", message);
-      if (justPickedNumber.current) return; // Ignore error if just picked a number
-      setError(message);
-      if (errorTimeout.current) clearTimeout(errorTimeout.current);
-      errorTimeout.current = setTimeout(() => setError(null), 3000);
-    });
+  useEffect(() => {
+    if (!state.timeout) return;
+    const timeout = setTimeout(
+      () => dispatch({ type: "timeoutDismissed" }),
+      BANNER_DISPLAY_TIME
+    );
+    return () => clearTimeout(timeout);
+  }, [state.timeout]);
 
-    newSocket.on(
-      "youWon",
-      (data: { placement: number; totalPlayers: number; number: number }) => {
-        // Only show a banner, do not set gameOver
-        setEliminationInfo({
-          playerName: playerName,
-          number: data.number,
-          placement: data.placement,
-          totalPlayers: data.totalPlayers,
-        });
-        setTimeout(() => setEliminationInfo(null), 3000);
-      }
+  const awaitingServer = isAwaitingServer(state.phase);
+  useEffect(() => {
+    if (!awaitingServer || state.requestStalled) return;
+    const timeout = setTimeout(
+      () => dispatch({ type: "requestTimedOut" }),
+      REQUEST_TIMEOUT
     );
+    return () => clearTimeout(timeout);
+  }, [awaitingServer, state.phase, state.requestStalled]);
 
-    newSocket.on(
-      "youLost",
-      (data: { placement: number; totalPlayers: number; number: number }) => {
-        // Only show a banner, do not set gameOver
-        setEliminationInfo({
-          playerName: playerName,
-          number: data.number,
-          placement: data.placement,
-          totalPlayers: data.totalPlayers,
-        });
-        setTimeout(() => setEliminationInfo(null), 3000);
-      }
+  useEffect(() => {
+    const timers = reactionTimers.current;
+    for (const { key } of state.reactions) {
+      if (timers.has(key)) continue;
+      timers.set(
+        key,
+        setTimeout(() => {
+          timers.delete(key);
+          dispatch({ type: "reactionExpired", key });
+        }, REACTION_DISPLAY_TIME)
+      );
+    }
+  }, [state.reactions]);
+
+  useEffect(() => {
+    const timers = reactionTimers.current;
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  // Sends a request now and keeps it around in case it needs retrying
+  const sendRequest = (send: () => void) => {
+    retryRequest.current = send;
+    send();
+  };
+
+  const handleRetryRequest = () => {
+    dispatch({ type: "requestRetried" });
+    retryRequest.current?.();
+  };
+
+  const handleCreate = (request: CreateLobbyRequest) => {
+    dispatch({ type: "createRequested" });
+    sendRequest(() => transportRef.current?.emit("createLobby", request));
+  };
+
+  const handleQuickMatch = () => {
+    dispatch({ type: "quickMatchRequested" });
+    sendRequest(() =>
+      transportRef.current?.emit("quickMatch", {
+        token: identity().getPlayerToken(),
+      })
     );
+  };
 
-    newSocket.on("playerEliminated", (info: PlayerElimination) => {
-      setEliminationInfo(info);
-      setTimeout(() => setEliminationInfo(null), 3000);
-    });
+  const handleJoin = (code: string) => {
+    dispatch({ type: "joinRequested", code });
+    pendingLobbyCode.current = code;
+    const { playerName, avatar, color } = state;
+    sendRequest(() =>
+      transportRef.current?.emit("joinLobby", {
+        code,
+        playerName,
+        token: identity().getPlayerToken(),
+        avatar,
+        color,
+      })
+    );
+  };
 
-    newSocket.on("gameOver", (info: GameOverInfo) => {
-      setGameOver(true);
-      setGameOverInfo(info);
-    });
+  const handleWatch = (code: string) => {
+    dispatch({ type: "watchRequested", code });
+    const spectatorName = state.playerName;
+    sendRequest(() =>
+      transportRef.current?.emit("spectateLobby", { code, spectatorName })
+    );
+  };
 
-    newSocket.on("lobbyCreated", (code: string) => {
-      setLobbyCode(code);
-      setLobbyStep("creating");
-      // Immediately join the lobby with the player name (latest value)
-      if (playerNameRef.current.trim().length >= 2 && socketRef.current) {
-        socketRef.current.emit("joinLobby", {
-          code,
-          playerName: playerNameRef.current,
-        });
-        setShowStartScreen(false);
-      }
-    });
+  const dismissError = useCallback(
+    () => dispatch({ type: "errorDismissed" }),
+    []
+  );
 
-    newSocket.on("lobbyJoined", (data) => {
-      setGameState((prev) => ({
-        ...prev,
-        status: "waiting",
-        boardSize: data.boardSize,
-        numbers: Array.from({ length: data.boardSize }, (_, i) => i + 1),
-      }));
-      setShowStartScreen(false);
-      // Reset local selectedNumber if needed
-      // No need to sync local selectedNumber anymore
-    });
+  const handleChooseServer = (url: string | null) => {
+    saveSettings({ serverUrl: url });
+    dispatch({ type: "serverChosen", url });
+  };
 
-    newSocket.on("resetNumbers", () => {
-      // No need to sync local selectedNumber anymore
-      setError("All players have chosen the same number. Pick a new number.");
+  const handlePlayBots = (settings: BotGameSettings) => {
+    dispatch({ type: "botGameStarted", id: LOCAL_PLAYER_ID });
+    const game = new LocalGame(handlersRef.current ?? {}, {
+      ...settings,
+      playerName: state.playerName.trim(),
+      avatar: state.avatar,
+      color: state.color,
     });
+    localGameRef.current = game;
+    connectionRef.current = game;
+  };
 
-    newSocket.on("lobbyReset", (data) => {
-      setGameOver(false);
-      setGameResult(null);
-      setGameOverInfo(null);
-      // No need to sync local selectedNumber anymore
-      setGameState((prev) => ({
-        ...prev,
-        players: data.players,
-        numbers: data.numbers,
-        currentTurn: null,
-        currentPlayerName: null,
-        gameStarted: false,
-        boardSize: data.boardSize,
-      }));
-      setShowStartScreen(false);
-    });
+  const handlePlayHotSeat = (options: HotSeatOptions) => {
+    dispatch({ type: "hotSeatStarted" });
+    const game = new HotSeatGame(handlersRef.current ?? {}, options);
+    localGameRef.current = game;
+    connectionRef.current = game;
+  };
 
-    return () => {
-      newSocket.close();
-    };
-  }, []);
+  const handleHandoff = () => {
+    const game = localGameRef.current;
+    if (state.handoff && game instanceof HotSeatGame) {
+      game.handOver(state.handoff.id);
+    }
+    dispatch({ type: "handoffAccepted" });
+  };
 
   const handleNumberSelect = (number: number) => {
-    if (gameOver) return; // Prevent selection after game over
-    setError(null); // Clear any error when picking a new number
-    justPickedNumber.current = true;
-    setTimeout(() => { justPickedNumber.current = false; }, 500);
-    const me = gameState.players.find(p => p.id === mySocketId);
-    if (me && me.selectedNumber === null) {
-      socketRef.current?.emit("selectNumber", number);
-    }
+    const me = findMe(state);
+    if (!me || hasPickedAll(me, state.variant)) return;
+    dispatch({ type: "numberPicked" });
+    connectionRef.current?.emit("selectNumber", number);
   };
 
   const handleNumberElimination = (number: number) => {
-    if (
-      gameState.gameStarted &&
-      socketRef.current?.id === gameState.currentTurn
-    ) {
-      socketRef.current.emit("eliminateNumber", number);
+    const me = findMe(state);
+    if (isMyTurn(state) && me && !numbersOf(me).includes(number)) {
+      connectionRef.current?.emit("eliminateNumber", number);
     }
   };
 
   const handlePlayAgain = () => {
-    socketRef.current?.emit("playerReadyForReplay");
+    connectionRef.current?.emit("playerReadyForReplay");
   };
 
   const handleMainMenu = () => {
     // Ask backend to remove this player from the lobby
-    socketRef.current?.emit("leaveLobby");
-    setGameOver(false);
-    setGameResult(null);
-    setGameOverInfo(null);
-    setPlayerName("");
-    // No need to sync local selectedNumber anymore
-    setGameState({
-      players: [],
-      numbers: Array.from({ length: 20 }, (_, i) => i + 1),
-      currentTurn: null,
-      currentPlayerName: null,
-      gameStarted: false,
-      boardSize: 20
-    });
-    setShowStartScreen(true);
-    setLobbyCode(null);
-    setJoinCodeInput("");
-    setLobbyStep("menu");
+    connectionRef.current?.emit("leaveLobby");
+    identity().clearSession();
+    pendingLobbyCode.current = null;
+    if (localGameRef.current) {
+      localGameRef.current = null;
+      connectionRef.current = transportRef.current;
+    }
+    dispatch({ type: "leftLobby", connectionId: transportRef.current?.id ?? null });
   };
 
-  const getPlacementText = (placement: number) => {
-    if (placement === 1) return "1st";
-    if (placement === 2) return "2nd";
-    if (placement === 3) return "3rd";
-    return `${placement}th`;
-  };
+  // Players sharing a device have nobody to chat with
+  const chat = state.mode !== "hotseat" && (
+    <ChatPanel
+      state={state}
+      dispatch={dispatch}
+      onSend={(text) => connectionRef.current?.emit("sendChatMessage", text)}
+      onReact={(emoji) => connectionRef.current?.emit("sendReaction", emoji)}
+    />
+  );
 
-  if (showStartScreen) {
-    // Step 1: Main menu
-    if (lobbyStep === "menu") {
-      return (
-        <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
-          <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center relative">
-            <button
-              className="absolute top-2 right-2 text-gray-700 hover:text-black text-2xl"
-              onClick={() => setShowInfo(true)}
-              aria-label="Game Info"
-            >
-              ℹ️
-            </button>
-            <h1 className="text-3xl font-bold mb-8 text-black">
-              Welcome to the Game!
-            </h1>
-            <div className="flex flex-col gap-4 w-64">
-              <button
-                className="bg-blue-700 text-white font-bold py-3 rounded border-2 border-gray-800 hover:bg-blue-900"
-                onClick={() => setLobbyStep("create")}
-              >
-                Create Game
-              </button>
-              <button
-                className="bg-green-700 text-white font-bold py-3 rounded border-2 border-gray-800 hover:bg-green-900"
-                onClick={() => setLobbyStep("join")}
-              >
-                Join Game
-              </button>
-            </div>
-            {showInfo && (
-              <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-40 z-50">
-                <div className="bg-white p-6 rounded-lg border-2 border-gray-800 max-w-md text-black">
-                  <h2 className="text-xl font-bold mb-2">How to Play</h2>
-                  <p>
-                    This is a number elimination game. Players take turns
-                    eliminating numbers from the board. The last player
-                    remaining loses!
-                  </p>
-                  <button
-                    className="mt-4 bg-blue-700 text-white px-4 py-2 rounded border-2 border-gray-800 font-bold hover:bg-blue-900"
-                    onClick={() => setShowInfo(false)}
-                  >
-                    Close
-                  </button>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
+  let screen;
+  switch (state.phase) {
+    case "menu":
+      screen = (
+        <MenuScreen
+          state={state}
+          dispatch={dispatch}
+          onCreate={handleCreate}
+          onQuickMatch={handleQuickMatch}
+          onJoin={handleJoin}
+          onWatch={handleWatch}
+          onPlayBots={handlePlayBots}
+          onPlayHotSeat={handlePlayHotSeat}
+        />
       );
-    }
-    // Step 2: Create lobby - enter name
-    if (lobbyStep === "create") {
-      return (
-        <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
-          <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center">
-            <h2 className="text-2xl font-bold mb-6 text-black">Create Game</h2>
-            <input
-              type="text"
-              value={playerName}
-              onChange={(e) => {
-                setPlayerName(e.target.value);
-                // Clear error when user starts typing
-                if (error) setError(null);
-              }}
-              placeholder="Enter your name"
-              className="w-full p-2 border-2 border-gray-800 rounded text-black font-bold bg-white mb-4"
-            />
-            <div className="mb-4">
-              <label className="block text-black font-bold mb-2">Board Size</label>
-              <select
-                value={boardSize}
-                onChange={(e) => setBoardSize(Number(e.target.value))}
-                className="w-full p-2 border-2 border-gray-800 rounded text-black font-bold bg-white"
-              >
-                <option value={10}>10 numbers</option>
-                <option value={20}>20 numbers</option>
-                <option value={30}>30 numbers</option>
-                <option value={40}>40 numbers</option>
-                <option value={50}>50 numbers</option>
-                <option value={60}>60 numbers</option>
-                <option value={70}>70 numbers</option>
-                <option value={80}>80 numbers</option>
-                <option value={90}>90 numbers</option>
-                <option value={100}>100 numbers</option>
-              </select>
-            </div>
-            {error && (
-              <div className="w-full mb-4 p-2 bg-red-100 text-red-700 border-2 border-red-700 rounded font-bold">
-                {error}
-              </div>
-            )}
-            <button
-              className="bg-blue-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-blue-900 w-full"
-              onClick={() => {
-                if (playerName.trim().length < 2) {
-                  setError("Name must be at least 2 characters long");
-                  return;
-                }
-                socketRef.current?.emit("createLobby", { boardSize });
-                setLobbyStep("creating");
-              }}
-            >
-              Create Lobby
-            </button>
-            <button
-              className="mt-2 text-blue-700 underline"
-              onClick={() => {
-                setError(null);
-                setLobbyStep("menu");
-              }}
-            >
-              Back
-            </button>
-          </div>
-        </div>
+      break;
+    case "creating":
+    case "matching":
+    case "joining":
+      screen = (
+        <StatusScreen
+          title={
+            state.phase === "creating"
+              ? t("status.creating")
+              : state.phase === "matching"
+                ? t("status.matching")
+                : t("status.joining")
+          }
+          {...(state.requestStalled && {
+            detail: t("status.stalled"),
+            onRetry: handleRetryRequest,
+            onCancel: handleMainMenu,
+          })}
+        />
       );
-    }
-    // Step 2: Join lobby - enter name and code
-    if (lobbyStep === "join") {
-      return (
-        <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
-          <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center">
-            <h2 className="text-2xl font-bold mb-6 text-black">Join Game</h2>
-            <input
-              type="text"
-              value={playerName}
-              onChange={(e) => {
-                setPlayerName(e.target.value);
-                // Clear error when user starts typing
-                if (error) setError(null);
-              }}
-              placeholder="Enter your name"
-              className="w-full p-2 border-2 border-gray-800 rounded text-black font-bold bg-white mb-2"
-            />
-            <input
-              type="text"
-              value={joinCodeInput}
-              onChange={(e) => {
-                const value = e.target.value.toUpperCase();
-                setJoinCodeInput(value);
-                // Clear error when user starts typing
-                if (error) setError(null);
-              }}
-              placeholder="Enter lobby code"
-              className="w-full p-2 border-2 border-gray-800 rounded text-black font-bold bg-white mb-4 uppercase"
-              maxLength={5}
-            />
-            {error && (
-              <div className="w-full mb-4 p-2 bg-red-100 text-red-700 border-2 border-red-700 rounded font-bold">
-                {error}
-              </div>
-            )}
-            <button
-              className="bg-green-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-green-900 w-full"
-              onClick={() => {
-                if (playerName.trim().length < 2) {
-                  setError("Name must be at least 2 characters long");
-                  return;
-                }
-                if (joinCodeInput.trim().length !== 5) {
-                  setError("Lobby code must be 5 characters");
-                  return;
-                }
-                // Validate that the code only contains letters and numbers
-                if (!/^[A-Z0-9]{5}$/.test(joinCodeInput.trim())) {
-                  setError("Lobby code must contain only letters and numbers");
-                  return;
-                }
-                setError(null);
-                setLobbyCode(joinCodeInput.trim());
-                socketRef.current?.emit("joinLobby", {
-                  code: joinCodeInput.trim(),
-                  playerName,
-                });
-              }}
-            >
-              Join Lobby
-            </button>
-            <button
-              className="mt-2 text-blue-700 underline"
-              onClick={() => {
-                setError(null);
-                setLobbyStep("menu");
-              }}
-            >
-              Back
-            </button>
-          </div>
-        </div>
+      break;
+    case "reconnecting":
+      screen = (
+        <StatusScreen
+          title={t("status.reconnecting")}
+          onCancel={handleMainMenu}
+        />
       );
-    }
-    // Step 3: Creating lobby, waiting for code
-    if (lobbyStep === "creating") {
-      return (
-        <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
-          <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center">
-            <h2 className="text-2xl font-bold mb-6 text-black">
-              Creating Lobby...
-            </h2>
-          </div>
-        </div>
+      break;
+    case "picking":
+    case "waiting":
+      screen = (
+        <LobbyScreen
+          state={state}
+          onPick={handleNumberSelect}
+          onStart={() => connectionRef.current?.emit("startGame")}
+          onTurnTimerChange={(settings) =>
+            connectionRef.current?.emit("setTurnTimer", settings)
+          }
+          onSettingsChange={(changes) =>
+            connectionRef.current?.emit("updateLobbySettings", changes)
+          }
+          onKick={(playerId) =>
+            connectionRef.current?.emit("kickPlayer", playerId)
+          }
+          onMakeLeader={(playerId) =>
+            connectionRef.current?.emit("transferLeadership", playerId)
+          }
+          chat={chat}
+        />
       );
-    }
-  }
-
-  if (gameOver) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-100">
-        <div className="bg-white p-8 rounded-lg shadow-lg text-center border-2 border-gray-800">
-          {gameResult ? (
-            <div>
-              <h2 className="text-2xl font-bold mb-4 text-black">
-                {gameResult === "won"
-                  ? `Congratulations! You got ${getPlacementText(
-                      gameOverInfo?.placements.find(
-                        (p) => p.name === playerName
-                      )?.placement || 0
-                    )} place!`
-                  : `Game Over! You got last place!`}
-              </h2>
-              {gameOverInfo && (
-                <div className="mb-4">
-                  <h3 className="text-xl font-bold mb-2 text-black">
-                    Final Placements:
-                  </h3>
-                  {gameOverInfo.placements.map((p, index) => (
-                    <p key={index} className="mb-1 text-black font-bold">
-                      {getPlacementText(p.placement)}: {p.name} (number: {p.number})
-                    </p>
-                  ))}
-                </div>
-              )}
-            </div>
-          ) : (
-            gameOverInfo && (
-              <div>
-                <h2 className="text-2xl font-bold mb-2 text-black">
-                  Game Over!
-                </h2>
-                <div className="mb-4">
-                  <h3 className="text-xl font-bold mb-2 text-black">
-                    Final Placements:
-                  </h3>
-                  {gameOverInfo.placements.map((p, index) => (
-                    <p key={index} className="mb-1 text-black font-bold">
-                      {getPlacementText(p.placement)}: {p.name} (number: {p.number})
-                    </p>
-                  ))}
-                </div>
-              </div>
-            )
-          )}
-          <div className="flex flex-col gap-2 mt-4">
-            <button
-              onClick={handlePlayAgain}
-              className="bg-blue-700 text-white px-4 py-2 rounded hover:bg-blue-900 font-bold border-2 border-gray-800"
-            >
-              Play Again
-            </button>
-            <button
-              onClick={handleMainMenu}
-              className="bg-gray-300 text-black px-4 py-2 rounded hover:bg-gray-400 font-bold border-2 border-gray-800"
-            >
-              Main Menu
-            </button>
-          </div>
-        </div>
-      </div>
-    );
+      break;
+    case "playing":
+      screen = (
+        <BoardScreen
+          state={state}
+          onEliminate={handleNumberElimination}
+          chat={chat}
+        />
+      );
+      break;
+    case "gameOver":
+      screen = (
+        <GameOverScreen
+          state={state}
+          onPlayAgain={handlePlayAgain}
+          onMainMenu={handleMainMenu}
+        />
+      );
+      break;
+    case "replay":
+      screen = state.replay && (
+        <ReplayScreen
+          record={state.replay}
+          onClose={() => dispatch({ type: "replayClosed" })}
+        />
+      );
+      break;
   }
 
-  if (!gameState.gameStarted) {
-    const me = gameState.players.find(p => p.id === mySocketId);
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-100">
-        <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800">
-          {error && (
-            <div className="mb-4 p-2 bg-red-100 text-red-700 border-2 border-red-700 rounded font-bold text-center">
-              {error}
-            </div>
-          )}
-          {lobbyCode && (
-            <div className="mb-4 text-center">
-              <span className="text-black font-bold">
-                Lobby Code: {" "}
-                <span className="text-2xl tracking-widest">{lobbyCode}</span>
-              </span>
-            </div>
-          )}
-          <h2 className="text-2xl font-bold mb-4 text-black">
-            Players in Lobby
-          </h2>
-          <ul className="mb-4">
-            {gameState.players.map((player, idx) => (
-              <li
-                key={idx}
-                className="text-black font-bold flex items-center gap-2"
-              >
-                {player.name}
-                {idx === 0 && (
-                  <span className="ml-2 text-blue-700">(Party Leader)</span>
-                )}
-                {player.name === playerName && (
-                  <span className="ml-2 text-green-700">(You)</span>
-                )}
-                {player.selectedNumber !== null && !error && (
-                  <span className="ml-2 text-green-600">✔️</span>
-                )}
-              </li>
-            ))}
-          </ul>
-          {/* Start Game button for party leader */}
-          {gameState.players.length > 1 &&
-            gameState.players[0]?.id === mySocketId && (
-              <button
-                className={`bg-blue-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 w-full mb-4 ${
-                  gameState.players.every((p) => p.selectedNumber !== null)
-                    ? "hover:bg-blue-900"
-                    : "opacity-50 cursor-not-allowed"
-                }`}
-                onClick={() => {
-                  if (gameState.players.every((p) => p.selectedNumber !== null)) {
-                    socketRef.current?.emit("startGame");
-                  }
-                }}
-                disabled={
-                  !gameState.players.every((p) => p.selectedNumber !== null)
-                }
-              >
-                Start Game
-              </button>
-            )}
-          {/* Number selection always available until game starts, or after duplicate error, or if selectedNumber is null */}
-          {me && me.selectedNumber === null ? (
-            <>
-              <h2 className="text-2xl font-bold mb-4 text-black">
-                {error?.includes("same number") ? "Choose a Different Number" : "Select Your Number"}
-              </h2>
-              <div className={`grid gap-2 ${
-                gameState.boardSize <= 20 ? 'grid-cols-5' :
-                gameState.boardSize <= 40 ? 'grid-cols-8' :
-                gameState.boardSize <= 60 ? 'grid-cols-10' :
-                gameState.boardSize <= 80 ? 'grid-cols-10' :
-                'grid-cols-10'
-              }`}>
-                {gameState.numbers.map((number) => (
-                  <button
-                    key={number}
-                    onClick={() => handleNumberSelect(number)}
-                    className="p-2 border-2 border-gray-800 rounded hover:bg-gray-200 text-black font-bold text-sm bg-white"
-                  >
-                    {number}
-                  </button>
-                ))}
-              </div>
-            </>
-          ) : (
-            // Show waiting message only if player has picked a number, there is no error, and not all players have picked
-            (!error && !gameState.players.every((p) => p.selectedNumber !== null)) ? (
-              <div className="text-center mt-4">
-                <h2 className="text-xl font-bold text-black">
-                  Waiting for other players to select their number...
-                </h2>
-                <p className="text-black font-bold">
-                  Your number: {me?.selectedNumber ?? ''}
-                </p>
-              </div>
-            ) : null
-          )}
-        </div>
-      </div>
+  if (state.handoff) {
+    screen = (
+      <HandoffScreen
+        state={state}
+        onReady={handleHandoff}
+        onMainMenu={handleMainMenu}
+      />
     );
   }
 
   return (
-    <div className="min-h-screen p-8 bg-gray-100">
-      <div className="max-w-4xl mx-auto">
-        {error && (
-          <div className="mb-4 p-2 bg-red-100 text-red-700 border-2 border-red-700 rounded font-bold text-center">
-            {error}
-          </div>
-        )}
-        {eliminationInfo && (
-          <div className="bg-green-100 p-4 rounded-lg shadow-lg text-center mb-6 border-2 border-green-700">
-            <p className="text-green-900 font-bold text-lg">
-              {eliminationInfo.playerName} got{" "}
-              {getPlacementText(eliminationInfo.placement)} place! Their number
-              was {eliminationInfo.number}.
-            </p>
-          </div>
-        )}
-        <div className="bg-white rounded-lg shadow-lg p-6 mb-6 border-2 border-gray-800">
-          {gameState.gameStarted && (
-            <div className="text-center mb-4">
-              <p className="text-lg font-bold text-black">
-                Current Turn:{" "}
-                <span className="text-blue-700 font-bold">
-                  {gameState.currentPlayerName}
-                </span>
-              </p>
-            </div>
-          )}
-          <h2 className="text-2xl font-bold mb-4 text-black">Game Board</h2>
-          <div className={`grid gap-2 ${
-            gameState.boardSize <= 20 ? 'grid-cols-5' :
-            gameState.boardSize <= 40 ? 'grid-cols-8' :
-            gameState.boardSize <= 60 ? 'grid-cols-10' :
-            gameState.boardSize <= 80 ? 'grid-cols-10' :
-            'grid-cols-10'
-          }`}>
-            {gameState.numbers.map((number) => (
-              <button
-                key={number}
-                onClick={() => handleNumberElimination(number)}
-                disabled={socketRef.current?.id !== gameState.currentTurn}
-                className={`p-2 border-2 border-gray-800 rounded text-center bg-white text-black font-bold text-sm shadow-sm transition-colors duration-150
-                  ${
-                    socketRef.current?.id === gameState.currentTurn
-                      ? "hover:bg-red-200 cursor-pointer"
-                      : "opacity-50 cursor-not-allowed"
-                  }
-                `}
-              >
-                {number}
-              </button>
-            ))}
-          </div>
-        </div>
-
-        <div className="bg-white rounded-lg shadow-lg p-6 border-2 border-gray-800">
-          <h2 className="text-2xl font-bold mb-4 text-black">Players</h2>
-          <div className="space-y-2">
-            {gameState.players.map((player, index) => (
-              <div
-                key={index}
-                className={`p-4 rounded flex justify-between items-center border-2 transition-colors duration-150
-                  ${
-                    player.isEliminated
-                      ? "bg-gray-100 border-gray-400"
-                      : socketRef.current?.id === gameState.currentTurn &&
-                        player.name === playerName
-                      ? "bg-blue-100 border-blue-700"
-                      : player.name ===
-                        gameState.players.find(
-                          (p, i) =>
-                            gameState.players[i].name === p.name &&
-                            socketRef.current?.id === gameState.currentTurn
-                        )?.name
-                      ? "bg-blue-100 border-blue-700"
-                      : "bg-white border-gray-800"
-                  }
-                `}
-              >
-                <div className="flex items-center gap-3">
-                  <span className="font-bold text-black text-lg">
-                    {player.name}
-                  </span>
-                  {player.isEliminated && (
-                    <span className="bg-green-200 text-green-900 text-sm font-bold px-3 py-1 rounded-full border border-green-700">
-                      Won - {getPlacementText(player.placement || 0)} Place
-                      {player.selectedNumber !== null &&
-                        ` (${player.selectedNumber})`}
-                    </span>
-                  )}
-                  {!player.isEliminated && (
-                    <>
-                      {socketRef.current?.id === gameState.currentTurn &&
-                        player.name === playerName && (
-                          <span className="bg-blue-200 text-blue-900 text-sm font-bold px-3 py-1 rounded-full border border-blue-700">
-                            Current Turn
-                          </span>
-                        )}
-                    </>
-                  )}
-                </div>
-              </div>
-            ))}
-          </div>
+    <>
+      {state.reconnecting && state.phase !== "reconnecting" && (
+        <div className="fixed top-0 inset-x-0 z-40 p-2 bg-yellow-100 text-yellow-900 border-b-2 border-yellow-700 font-bold text-center">
+          {t("status.reconnecting")}
         </div>
+      )}
+      <div ref={screenRef}>{screen}</div>
+      <div role="status" aria-live="polite" className="sr-only">
+        {announced}
       </div>
-    </div>
+      {/* The menu shows its errors inside the form instead */}
+      {state.error &&
+        state.phase !== "menu" &&
+        errorDisplay(state.error.code).kind === "toast" && (
+          <Toast
+            message={errorText(state.error, i18n)}
+            onDismiss={dismissError}
+          />
+        )}
+      <ConnectionIndicator
+        state={state}
+        onRetry={() => dispatch({ type: "reconnectRequested" })}
+        onChooseServer={handleChooseServer}
+      />
+      <ContrastToggle />
+    </>
   );
 }
@@ -0,0 +1,278 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { useI18n } from "@/components/LocaleProvider";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import ReplayViewer from "@/components/ReplayViewer";
+import SeriesPodium from "@/components/SeriesPodium";
+import SeriesScoreboard from "@/components/SeriesScoreboard";
+import { formatChance, getPlacementText } from "@/lib/format";
+import { GameState, mySeatId } from "@/lib/gameReducer";
+import type { GameRecord } from "@/lib/protocol";
+import {
+  createGameRecord,
+  gameRecordFileName,
+  serializeGameRecord,
+} from "@/lib/replay";
+import { reviewMoves, type MoveReview } from "@/lib/risk";
+import { isSeriesOver } from "@/lib/series";
+import { placementNumbers } from "@/lib/variants";
+
+interface GameOverScreenProps {
+  state: GameState;
+  onPlayAgain: () => void;
+  onMainMenu: () => void;
+}
+
+export default function GameOverScreen({
+  state,
+  onPlayAgain,
+  onMainMenu,
+}: GameOverScreenProps) {
+  const { t, locale } = useI18n();
+  const [replay, setReplay] = useState<GameRecord | null>(null);
+  const [reviews, setReviews] = useState<MoveReview[] | null>(null);
+  // The analysis runs in the background; leaving the screen stops it
+  const analysis = useRef<AbortController | null>(null);
+  const [analysing, setAnalysing] = useState(false);
+  useEffect(() => () => analysis.current?.abort(), []);
+  const { result, gameOverInfo } = state;
+  const seatId = mySeatId(state);
+  const myPlacement =
+    gameOverInfo?.placements.find((p) => p.seatId === seatId)?.placement || 0;
+  const lastPlace = myPlacement === gameOverInfo?.placements.length;
+  const inSeries = state.seriesLength > 1 && state.series.length > 0;
+  const seriesOver = isSeriesOver(state.series, state.seriesLength);
+
+  const record = () =>
+    gameOverInfo &&
+    createGameRecord(state.boardSize, state.moves, gameOverInfo, state.variant);
+
+  const handleExport = () => {
+    const game = record();
+    if (!game) return;
+    const blob = new Blob([serializeGameRecord(game)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = gameRecordFileName(game);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleAnalyse = () => {
+    if (reviews) return setReviews(null);
+    if (analysing || !gameOverInfo || !state.myId) return;
+    const controller = new AbortController();
+    analysis.current = controller;
+    setAnalysing(true);
+    reviewMoves(
+      state.moves,
+      state.players,
+      gameOverInfo.placements,
+      state.myId,
+      state.boardSize,
+      state.variant,
+      controller.signal
+    ).then((found) => {
+      if (!found) return;
+      setAnalysing(false);
+      setReviews(found);
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+      <div className="bg-white p-8 rounded-lg shadow-lg text-center border-2 border-gray-800 max-w-2xl">
+        {inSeries && (
+          <p className="text-blue-700 font-bold mb-1">
+            {t("gameOver.seriesGame", {
+              played: state.series.length,
+              count: state.seriesLength,
+            })}
+          </p>
+        )}
+        <h2 className="text-2xl font-bold mb-4 text-black">
+          {result === "won"
+            ? t("gameOver.won", {
+                place: getPlacementText(myPlacement, locale),
+              })
+            : result === "lost" && lastPlace
+            ? t("gameOver.lastPlace")
+            : result === "lost"
+            ? t("gameOver.lost", {
+                place: getPlacementText(myPlacement, locale),
+              })
+            : t("gameOver.title")}
+        </h2>
+        {gameOverInfo && (
+          <div className="mb-4">
+            <h3 className="text-xl font-bold mb-2 text-black">
+              {t("gameOver.placements")}
+            </h3>
+            {gameOverInfo.placements.map((p) => (
+              <p
+                key={p.seatId}
+                className={`mb-1 font-bold flex items-center justify-center gap-2 ${
+                  p.seatId === seatId ? "text-green-700" : "text-black"
+                }`}
+              >
+                <PlayerAvatar
+                  players={state.players}
+                  seatId={p.seatId}
+                  name={p.name}
+                />
+                {t(
+                  placementNumbers(p).length > 1
+                    ? "gameOver.placementMany"
+                    : "gameOver.placementOne",
+                  {
+                    place: getPlacementText(p.placement, locale),
+                    name: p.name,
+                    numbers: placementNumbers(p).join(", "),
+                  }
+                )}
+              </p>
+            ))}
+          </div>
+        )}
+        <SeriesPodium state={state} />
+        <SeriesScoreboard state={state} />
+        {reviews && (
+          <div className="mb-4 pt-4 border-t-2 border-gray-300 text-left">
+            <h3 className="text-xl font-bold mb-2 text-black">
+              {t("analysis.title")}
+            </h3>
+            {reviews.length === 0 ? (
+              <p className="text-gray-500 font-bold">
+                {t("analysis.noMoves")}
+              </p>
+            ) : (
+              <ol className="space-y-2">
+                {reviews.map((review) => (
+                  <MoveReviewItem key={review.move.turn} review={review} />
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+        {replay && (
+          <div className="mb-4 pt-4 border-t-2 border-gray-300">
+            <ReplayViewer record={replay} />
+          </div>
+        )}
+        <div className="flex flex-col gap-2 mt-4">
+          {gameOverInfo && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setReplay(replay ? null : record())}
+                className="flex-1 bg-white text-black px-4 py-2 rounded hover:bg-gray-200 font-bold border-2 border-gray-800"
+              >
+                {replay ? t("gameOver.hideReplay") : t("gameOver.watchReplay")}
+              </button>
+              <button
+                onClick={handleExport}
+                className="flex-1 bg-white text-black px-4 py-2 rounded hover:bg-gray-200 font-bold border-2 border-gray-800"
+              >
+                {t("gameOver.export")}
+              </button>
+            </div>
+          )}
+          {gameOverInfo && state.role === "player" && (
+            <button
+              onClick={handleAnalyse}
+              disabled={analysing}
+              className={`bg-white text-black px-4 py-2 rounded font-bold border-2 border-gray-800 ${
+                analysing ? "opacity-50 cursor-not-allowed" : "hover:bg-gray-200"
+              }`}
+            >
+              {analysing
+                ? t("gameOver.analysing")
+                : reviews
+                ? t("gameOver.hideAnalysis")
+                : t("gameOver.analyse")}
+            </button>
+          )}
+          {state.role === "player" && (
+            <button
+              onClick={onPlayAgain}
+              className="bg-blue-700 text-white px-4 py-2 rounded hover:bg-blue-900 font-bold border-2 border-gray-800"
+            >
+              {seriesOver
+                ? t("gameOver.newSeries")
+                : inSeries
+                ? t("gameOver.nextGame")
+                : t("gameOver.playAgain")}
+            </button>
+          )}
+          <button
+            onClick={onMainMenu}
+            className="bg-gray-300 text-black px-4 py-2 rounded hover:bg-gray-400 font-bold border-2 border-gray-800"
+          >
+            {t("common.mainMenu")}
+          </button>
+          {state.role === "player" && (
+            <Link
+              href="/stats"
+              className="text-blue-700 font-bold underline"
+            >
+              {t("gameOver.stats")}
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Estimates are sampled, so moves this close to the best count as equal
+const CLOSE_ENOUGH = 0.1;
+
+// How one of the player's moves compares with the best one available then
+function MoveReviewItem({ review }: { review: MoveReview }) {
+  const { t, locale } = useI18n();
+  const { move, chosen, best, knockoutNumbers } = review;
+  const optimal =
+    !chosen ||
+    !best ||
+    chosen.expectedPlacement - best.expectedPlacement <= CLOSE_ENOUGH;
+  const finish = (expected: number) =>
+    expected.toLocaleString(locale, {
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1,
+    });
+  return (
+    <li className="text-black text-sm p-2 rounded border-2 border-gray-300">
+      <p className="font-bold">
+        {t("analysis.move", {
+          turn: move.turn,
+          number: move.number ?? "",
+        })}
+        {chosen &&
+          t("analysis.moveOdds", {
+            chance: formatChance(chosen.knockoutChance, locale),
+            finish: finish(chosen.expectedPlacement),
+          })}
+      </p>
+      {best && (
+        <p className={optimal ? "text-green-800" : "text-amber-800"}>
+          {optimal
+            ? t("analysis.optimal")
+            : t("analysis.better", {
+                number: best.number,
+                chance: formatChance(best.knockoutChance, locale),
+                finish: finish(best.expectedPlacement),
+              })}
+        </p>
+      )}
+      <p className="text-gray-700">
+        {knockoutNumbers.length === 0
+          ? t("analysis.hindsightNone")
+          : t("analysis.hindsight", { numbers: knockoutNumbers.join(", ") })}
+      </p>
+    </li>
+  );
+}
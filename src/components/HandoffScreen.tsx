@@ -0,0 +1,65 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import { getPlacementText } from "@/lib/format";
+import type { GameState } from "@/lib/gameReducer";
+
+interface HandoffScreenProps {
+  state: GameState;
+  onReady: () => void;
+  onMainMenu: () => void;
+}
+
+/** Covers the board while a shared device is passed to the next player. */
+export default function HandoffScreen({
+  state,
+  onReady,
+  onMainMenu,
+}: HandoffScreenProps) {
+  const { t, locale } = useI18n();
+  const { handoff, elimination, timeout } = state;
+  if (!handoff) return null;
+  const picking = state.phase === "picking" || state.phase === "waiting";
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-800 p-4">
+      <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center max-w-md text-center">
+        {elimination && (
+          <p className="mb-4 p-2 bg-green-100 text-green-900 border-2 border-green-700 rounded font-bold">
+            {t("board.knockedOut", {
+              name: elimination.playerName,
+              place: getPlacementText(elimination.placement, locale),
+              number: elimination.number,
+            })}
+          </p>
+        )}
+        {timeout && (
+          <p className="mb-4 p-2 bg-yellow-100 text-yellow-900 border-2 border-yellow-700 rounded font-bold">
+            {t("handoff.timedOut", { name: timeout.playerName })}
+          </p>
+        )}
+        <h2 className="text-2xl font-bold mb-2 text-black">
+          {t("handoff.title", { name: handoff.name })}
+        </h2>
+        <p className="text-black font-bold mb-6">
+          {picking
+            ? t(
+                state.variant.secretCount > 1
+                  ? "handoff.pickMany"
+                  : "handoff.pickOne"
+              )
+            : t("handoff.turn")}
+        </p>
+        <button
+          className="bg-blue-700 text-white font-bold py-3 px-6 rounded border-2 border-gray-800 hover:bg-blue-900"
+          onClick={onReady}
+        >
+          {t("handoff.ready", { name: handoff.name })}
+        </button>
+        <button className="mt-4 text-blue-700 underline" onClick={onMainMenu}>
+          {t("handoff.quit")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import {
+  BOARD_SIZES,
+  MAX_PLAYERS,
+  SERIES_LENGTHS,
+  TURN_TIME_LIMITS,
+} from "@/lib/engine";
+import { GameState, isLeader } from "@/lib/gameReducer";
+import type { MessageKey } from "@/lib/i18n";
+import { TIE_BREAKS } from "@/lib/protocol";
+import type {
+  LobbySettingsUpdate,
+  TieBreak,
+  TurnTimeoutAction,
+  TurnTimerSettings,
+} from "@/lib/protocol";
+import { lastNumber } from "@/lib/variants";
+
+interface HostSettingsPanelProps {
+  state: GameState;
+  onSettingsChange: (changes: LobbySettingsUpdate) => void;
+  onTurnTimerChange: (settings: TurnTimerSettings) => void;
+}
+
+const TIE_BREAK_LABELS: Record<TieBreak, MessageKey> = {
+  wins: "host.tieBreakWins",
+  latest: "host.tieBreakLatest",
+  shared: "host.tieBreakShared",
+};
+
+const selectClass =
+  "w-full p-2 border-2 border-gray-800 rounded text-black font-bold bg-white mb-2";
+
+/** Lobby settings: editable for the party leader, a summary for everyone else. */
+export default function HostSettingsPanel({
+  state,
+  onSettingsChange,
+  onTurnTimerChange,
+}: HostSettingsPanelProps) {
+  const { t } = useI18n();
+  const { boardSize, maxPlayers, locked, turnTimer, players, variant } = state;
+  const timerSummary =
+    turnTimer.seconds === null
+      ? t("host.noTimer")
+      : t(
+          turnTimer.onTimeout === "random"
+            ? "host.timerRandom"
+            : "host.timerSkip",
+          { seconds: turnTimer.seconds }
+        );
+
+  if (!isLeader(state)) {
+    return (
+      <p className="mb-4 text-black font-bold">
+        {t("host.summary", {
+          first: variant.rangeStart,
+          last: lastNumber(variant, boardSize),
+          max: maxPlayers,
+          timer: timerSummary,
+        })}
+        {state.isPublic && t("host.public")}
+        {locked && t("host.locked")}
+        {!state.assistant && t("host.noAssistant")}
+        {state.seriesLength > 1 &&
+          t("host.seriesSummary", { count: state.seriesLength })}
+      </p>
+    );
+  }
+
+  const playerLimits = Array.from(
+    { length: MAX_PLAYERS - 1 },
+    (_, i) => i + 2
+  ).filter((n) => n >= players.length);
+  // A series can't be cut shorter than the games already played
+  const seriesLengths = SERIES_LENGTHS.filter((n) => n > state.series.length);
+
+  return (
+    <details className="mb-4 p-3 border-2 border-gray-800 rounded" open>
+      <summary className="text-black font-bold cursor-pointer">
+        {t("host.title")}
+      </summary>
+      <div className="mt-2">
+        <label className="block text-black font-bold mb-2">
+          {t("menu.boardSize")}
+        </label>
+        <select
+          value={boardSize}
+          onChange={(e) =>
+            onSettingsChange({ boardSize: Number(e.target.value) })
+          }
+          className={selectClass}
+        >
+          {BOARD_SIZES.map((size) => (
+            <option key={size} value={size}>
+              {t("common.numbers", { count: size })}
+            </option>
+          ))}
+        </select>
+        <label className="block text-black font-bold mb-2">
+          {t("host.maxPlayers")}
+        </label>
+        <select
+          value={maxPlayers}
+          onChange={(e) =>
+            onSettingsChange({ maxPlayers: Number(e.target.value) })
+          }
+          className={selectClass}
+        >
+          {playerLimits.map((n) => (
+            <option key={n} value={n}>
+              {t("common.players", { count: n })}
+            </option>
+          ))}
+        </select>
+        <label className="block text-black font-bold mb-2">
+          {t("host.turnTimer")}
+        </label>
+        <select
+          value={turnTimer.seconds ?? ""}
+          onChange={(e) =>
+            onTurnTimerChange({
+              ...turnTimer,
+              seconds: e.target.value ? Number(e.target.value) : null,
+            })
+          }
+          className={selectClass}
+        >
+          <option value="">{t("host.timerOff")}</option>
+          {TURN_TIME_LIMITS.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {t("common.seconds", { count: seconds })}
+            </option>
+          ))}
+        </select>
+        {turnTimer.seconds !== null && (
+          <>
+            <label className="block text-black font-bold mb-2">
+              {t("host.onTimeout")}
+            </label>
+            <select
+              value={turnTimer.onTimeout}
+              onChange={(e) =>
+                onTurnTimerChange({
+                  ...turnTimer,
+                  onTimeout: e.target.value as TurnTimeoutAction,
+                })
+              }
+              className={selectClass}
+            >
+              <option value="random">{t("host.timeoutRandom")}</option>
+              <option value="skip">{t("host.timeoutSkip")}</option>
+            </select>
+          </>
+        )}
+        <label className="block text-black font-bold mb-2">
+          {t("host.series")}
+        </label>
+        <select
+          value={state.seriesLength}
+          onChange={(e) =>
+            onSettingsChange({ seriesLength: Number(e.target.value) })
+          }
+          className={selectClass}
+        >
+          {seriesLengths.map((n) => (
+            <option key={n} value={n}>
+              {n === 1
+                ? t("host.seriesOff")
+                : t("host.seriesLength", { count: n })}
+            </option>
+          ))}
+        </select>
+        {state.seriesLength > 1 && (
+          <>
+            <label className="block text-black font-bold mb-2">
+              {t("host.tieBreak")}
+            </label>
+            <select
+              value={state.tieBreak}
+              onChange={(e) =>
+                onSettingsChange({ tieBreak: e.target.value as TieBreak })
+              }
+              className={selectClass}
+            >
+              {TIE_BREAKS.map((rule) => (
+                <option key={rule} value={rule}>
+                  {t(TIE_BREAK_LABELS[rule])}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+        <label className="flex items-center gap-2 text-black font-bold">
+          <input
+            type="checkbox"
+            checked={locked}
+            onChange={(e) => onSettingsChange({ locked: e.target.checked })}
+          />
+          {t("host.lock")}
+        </label>
+        {state.mode === "online" && (
+          <label className="flex items-center gap-2 text-black font-bold mt-2">
+            <input
+              type="checkbox"
+              checked={state.isPublic}
+              onChange={(e) => onSettingsChange({ isPublic: e.target.checked })}
+            />
+            {t("menu.public")}
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-black font-bold mt-2">
+          <input
+            type="checkbox"
+            checked={state.assistant}
+            onChange={(e) => onSettingsChange({ assistant: e.target.checked })}
+          />
+          {t("host.assistant")}
+        </label>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import QRCode from "qrcode";
+import { useI18n } from "@/components/LocaleProvider";
+import { inviteUrl } from "@/lib/invite";
+
+interface InvitePanelProps {
+  code: string;
+}
+
+/** Copy, share and QR code controls for a lobby's invite link. */
+export default function InvitePanel({ code }: InvitePanelProps) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const [copyFailed, setCopyFailed] = useState(false);
+  const [showQr, setShowQr] = useState(false);
+  const [qrFailed, setQrFailed] = useState(false);
+  const [canShare, setCanShare] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    setCanShare(typeof navigator !== "undefined" && "share" in navigator);
+  }, []);
+
+  useEffect(() => {
+    if (!showQr || !canvasRef.current) return;
+    setQrFailed(false);
+    QRCode.toCanvas(canvasRef.current, inviteUrl(code), { width: 192 }).catch(
+      () => setQrFailed(true)
+    );
+  }, [showQr, code]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(code));
+      setCopied(true);
+      setCopyFailed(false);
+    } catch {
+      // No clipboard access, e.g. over plain http; offer the link instead
+      setCopyFailed(true);
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.share({
+        title: t("invite.shareTitle"),
+        text: t("invite.shareText", { code }),
+        url: inviteUrl(code),
+      });
+    } catch {
+      // The user closed the share sheet
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 mt-2">
+      <div className="flex gap-2">
+        <button
+          className="bg-white text-black text-sm font-bold px-3 py-1 rounded border-2 border-gray-800 hover:bg-gray-200"
+          onClick={handleCopy}
+        >
+          {copied ? t("invite.copied") : t("invite.copy")}
+        </button>
+        {canShare && (
+          <button
+            className="bg-white text-black text-sm font-bold px-3 py-1 rounded border-2 border-gray-800 hover:bg-gray-200"
+            onClick={handleShare}
+          >
+            {t("invite.share")}
+          </button>
+        )}
+        <button
+          className="bg-white text-black text-sm font-bold px-3 py-1 rounded border-2 border-gray-800 hover:bg-gray-200"
+          onClick={() => setShowQr((show) => !show)}
+        >
+          {showQr ? t("invite.hideQr") : t("invite.qr")}
+        </button>
+      </div>
+      {copyFailed && (
+        <p className="text-sm text-black text-center">
+          {t("invite.copyFailed")}{" "}
+          <span className="font-bold break-all select-all">
+            {inviteUrl(code)}
+          </span>
+        </p>
+      )}
+      {showQr && qrFailed && (
+        <p className="text-sm font-bold text-red-700">{t("invite.qrFailed")}</p>
+      )}
+      {showQr && (
+        <canvas
+          ref={canvasRef}
+          className={`border-2 border-gray-800 rounded ${qrFailed ? "hidden" : ""}`}
+          aria-label={t("invite.qrLabel", { code })}
+        />
+      )}
+    </div>
+  );
+}
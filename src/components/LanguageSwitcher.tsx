@@ -0,0 +1,26 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import { isLocale, LOCALE_NAMES, LOCALES } from "@/lib/i18n";
+
+/** Picks the UI language; the choice is remembered in this browser. */
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => {
+        if (isLocale(e.target.value)) setLocale(e.target.value);
+      }}
+      aria-label={t("common.language")}
+      className="p-1 border-2 border-gray-800 rounded text-black text-sm font-bold bg-white"
+    >
+      {LOCALES.map((option) => (
+        <option key={option} value={option} lang={option}>
+          {LOCALE_NAMES[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
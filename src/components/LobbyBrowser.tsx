@@ -0,0 +1,94 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import type { LobbySummary } from "@/lib/protocol";
+import { describeVariant } from "@/lib/variants";
+
+interface LobbyBrowserProps {
+  lobbies: LobbySummary[] | null;
+  onJoin: (code: string) => void;
+  onWatch: (code: string) => void;
+}
+
+/** Open public lobbies, kept up to date by the server while it is shown. */
+export default function LobbyBrowser({
+  lobbies,
+  onJoin,
+  onWatch,
+}: LobbyBrowserProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  if (!lobbies) {
+    return (
+      <p className="text-gray-500 font-bold mb-4">{t("browser.loading")}</p>
+    );
+  }
+  if (lobbies.length === 0) {
+    return (
+      <p className="text-gray-500 font-bold mb-4">
+        {t("browser.empty")}
+      </p>
+    );
+  }
+
+  // Lobbies still waiting for players first, fullest at the top
+  const sorted = [...lobbies].sort(
+    (a, b) =>
+      Number(a.inProgress) - Number(b.inProgress) || b.players - a.players
+  );
+
+  return (
+    <ul className="w-full mb-4 space-y-2 max-h-96 overflow-y-auto">
+      {sorted.map((lobby) => {
+        const full = lobby.players >= lobby.maxPlayers;
+        const joinable = !lobby.inProgress && !full;
+        return (
+          <li
+            key={lobby.code}
+            className="p-3 rounded border-2 border-gray-800 flex items-center justify-between gap-4"
+          >
+            <div className="text-black">
+              <p className="font-bold">
+                {t("browser.hostsGame", { name: lobby.hostName })}
+              </p>
+              <p className="text-sm font-bold text-gray-600">
+                {t("browser.summary", {
+                  players: lobby.players,
+                  max: lobby.maxPlayers,
+                  size: lobby.boardSize,
+                  rules: describeVariant(lobby.variant, lobby.boardSize, i18n),
+                })}
+              </p>
+              <p
+                className={`text-sm font-bold ${
+                  lobby.inProgress ? "text-yellow-700" : "text-green-700"
+                }`}
+              >
+                {lobby.inProgress
+                  ? t("browser.inProgress")
+                  : full
+                  ? t("browser.full")
+                  : t("browser.waiting")}
+              </p>
+            </div>
+            {joinable ? (
+              <button
+                onClick={() => onJoin(lobby.code)}
+                className="bg-green-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-green-900"
+              >
+                {t("browser.join")}
+              </button>
+            ) : (
+              <button
+                onClick={() => onWatch(lobby.code)}
+                className="bg-yellow-600 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-yellow-800"
+              >
+                {t("browser.watch")}
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState } from "react";
+import type { ReactNode } from "react";
+import HostSettingsPanel from "@/components/HostSettingsPanel";
+import InvitePanel from "@/components/InvitePanel";
+import { useI18n } from "@/components/LocaleProvider";
+import NumberGrid from "@/components/NumberGrid";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import ReactionBubbles from "@/components/ReactionBubbles";
+import RulesModal from "@/components/RulesModal";
+import SeriesScoreboard from "@/components/SeriesScoreboard";
+import SpectatorList from "@/components/SpectatorList";
+import { boardHint } from "@/lib/errors";
+import { findMe, GameState, isLeader } from "@/lib/gameReducer";
+import type { LobbySettingsUpdate, TurnTimerSettings } from "@/lib/protocol";
+import { describeVariant, hasPickedAll, numbersOf } from "@/lib/variants";
+
+interface LobbyScreenProps {
+  state: GameState;
+  onPick: (number: number) => void;
+  onStart: () => void;
+  onTurnTimerChange: (settings: TurnTimerSettings) => void;
+  onSettingsChange: (changes: LobbySettingsUpdate) => void;
+  onKick: (playerId: string) => void;
+  onMakeLeader: (playerId: string) => void;
+  chat: ReactNode;
+}
+
+export default function LobbyScreen({
+  state,
+  onPick,
+  onStart,
+  onTurnTimerChange,
+  onSettingsChange,
+  onKick,
+  onMakeLeader,
+  chat,
+}: LobbyScreenProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [showRules, setShowRules] = useState(false);
+  const { players, error, lobbyCode, myId, variant } = state;
+  const me = findMe(state);
+  const myNumbers = me ? numbersOf(me) : [];
+  const amLeader = isLeader(state);
+  const leaderId = state.leaderId ?? players[0]?.id;
+  const everyonePicked = players.every((p) => hasPickedAll(p, variant));
+  const several = variant.secretCount > 1;
+  const hint = boardHint(error, i18n);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-4 bg-gray-100">
+      <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800">
+        {lobbyCode && (
+          <div className="mb-4 text-center">
+            <span className="text-black font-bold">
+              {t("lobby.code")}{" "}
+              <span className="text-2xl tracking-widest">{lobbyCode}</span>
+            </span>
+            <InvitePanel code={lobbyCode} />
+          </div>
+        )}
+        <div className="mb-4 flex items-center justify-between gap-2">
+          <span className="text-blue-700 font-bold">
+            {describeVariant(variant, state.boardSize, i18n)}
+          </span>
+          <button
+            className="text-blue-700 underline font-bold"
+            onClick={() => setShowRules(true)}
+          >
+            {t("rules.button")}
+          </button>
+        </div>
+        {showRules && (
+          <RulesModal
+            variant={variant}
+            boardSize={state.boardSize}
+            onClose={() => setShowRules(false)}
+          />
+        )}
+        <h2 className="text-2xl font-bold mb-4 text-black">
+          {t("lobby.players", {
+            count: players.length,
+            max: state.maxPlayers,
+          })}
+        </h2>
+        <ul className="mb-4">
+          {players.map((player) => (
+            <li
+              key={player.seatId}
+              className="relative text-black font-bold flex items-center gap-2 py-1"
+            >
+              <PlayerAvatar
+                players={players}
+                seatId={player.seatId}
+                name={player.name}
+              />
+              {player.name}
+              {player.id === leaderId && (
+                <span className="ml-2 text-blue-700">{t("lobby.leader")}</span>
+              )}
+              {player.id === myId && (
+                <span className="ml-2 text-green-700">{t("common.you")}</span>
+              )}
+              {hasPickedAll(player, variant) && !error && (
+                <span className="ml-2 text-green-600">✔️</span>
+              )}
+              {amLeader && player.id !== myId && state.mode !== "hotseat" && (
+                <span className="ml-auto flex gap-1">
+                  <button
+                    onClick={() => onMakeLeader(player.id)}
+                    className="text-xs px-2 py-1 rounded border-2 border-gray-800 bg-white hover:bg-gray-200"
+                  >
+                    {t("lobby.makeLeader")}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (
+                        window.confirm(
+                          t("lobby.confirmKick", { name: player.name })
+                        )
+                      ) {
+                        onKick(player.id);
+                      }
+                    }}
+                    className="text-xs px-2 py-1 rounded border-2 border-red-700 bg-white text-red-700 hover:bg-red-100"
+                  >
+                    {t("lobby.kick")}
+                  </button>
+                </span>
+              )}
+              <ReactionBubbles reactions={state.reactions} senderId={player.id} />
+            </li>
+          ))}
+        </ul>
+        <SeriesScoreboard state={state} />
+        <HostSettingsPanel
+          state={state}
+          onSettingsChange={onSettingsChange}
+          onTurnTimerChange={onTurnTimerChange}
+        />
+        {/* Start Game button for party leader */}
+        {players.length > 1 && amLeader && (
+          <button
+            className={`bg-blue-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 w-full mb-4 ${
+              everyonePicked ? "hover:bg-blue-900" : "opacity-50 cursor-not-allowed"
+            }`}
+            onClick={() => {
+              if (everyonePicked) onStart();
+            }}
+            disabled={!everyonePicked}
+          >
+            {t("lobby.startGame")}
+          </button>
+        )}
+        {state.phase === "picking" && me ? (
+          <>
+            <h2 className="text-2xl font-bold mb-4 text-black">
+              {error?.code === "duplicate-number"
+                ? several
+                  ? t("lobby.repickMany")
+                  : t("lobby.repickOne")
+                : several
+                ? t("lobby.pickMany", {
+                    picked: myNumbers.length,
+                    count: variant.secretCount,
+                  })
+                : t("lobby.pickOne")}
+            </h2>
+            {hint && (
+              <p
+                role="alert"
+                className="mb-4 p-2 bg-red-100 text-red-700 border-2 border-red-700 rounded font-bold text-center"
+              >
+                {hint}
+              </p>
+            )}
+            <NumberGrid
+              boardSize={state.boardSize}
+              numbers={state.numbers}
+              label={t("lobby.pickGrid")}
+              renderTile={(number, tile) => {
+                const picked = myNumbers.includes(number);
+                return (
+                  <button
+                    key={number}
+                    {...tile}
+                    onClick={() => !picked && onPick(number)}
+                    aria-disabled={picked}
+                    aria-label={
+                      picked ? t("lobby.picked", { number }) : String(number)
+                    }
+                    className={`p-2 border-2 rounded text-black font-bold text-sm bg-white ${
+                      picked
+                        ? "border-green-700 ring-2 ring-green-700"
+                        : "border-gray-800 hover:bg-gray-200"
+                    }`}
+                  >
+                    {number}
+                  </button>
+                );
+              }}
+            />
+          </>
+        ) : state.role === "spectator" ? (
+          <div className="text-center mt-4">
+            <h2 className="text-xl font-bold text-black">
+              {t("lobby.watching")}
+            </h2>
+            <p className="text-black font-bold">
+              {t("lobby.boardLater")}
+            </p>
+          </div>
+        ) : (
+          // Show waiting message only if there is no error and not all players have picked
+          !error && !everyonePicked && (
+            <div className="text-center mt-4">
+              <h2 className="text-xl font-bold text-black">
+                {t(several ? "lobby.waitingMany" : "lobby.waitingOne")}
+              </h2>
+              <p className="text-black font-bold">
+                {t(several ? "lobby.yourNumbers" : "lobby.yourNumber", {
+                  numbers: myNumbers.join(", "),
+                })}
+              </p>
+            </div>
+          )
+        )}
+        <SpectatorList
+          spectators={state.spectators}
+          myId={myId}
+          reactions={state.reactions}
+        />
+      </div>
+      <div className="w-full max-w-md">{chat}</div>
+    </div>
+  );
+}
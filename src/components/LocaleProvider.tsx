@@ -0,0 +1,58 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  Locale,
+  saveLocale,
+  Translator,
+} from "@/lib/i18n";
+
+interface LocaleContextValue extends Translator {
+  setLocale: (locale: Locale) => void;
+}
+
+const LocaleContext = createContext<LocaleContextValue>({
+  ...createTranslator(DEFAULT_LOCALE),
+  setLocale: () => {},
+});
+
+/** The current language's messages, and a way to switch language. */
+export function useI18n() {
+  return useContext(LocaleContext);
+}
+
+interface LocaleProviderProps {
+  /** Worked out by the server from the cookie or the browser's languages. */
+  initialLocale: Locale;
+  children: ReactNode;
+}
+
+export default function LocaleProvider({
+  initialLocale,
+  children,
+}: LocaleProviderProps) {
+  const [locale, setLocale] = useState(initialLocale);
+  const value = useMemo(
+    () => ({
+      ...createTranslator(locale),
+      setLocale: (next: Locale) => {
+        saveLocale(next);
+        document.documentElement.lang = next;
+        setLocale(next);
+      },
+    }),
+    [locale]
+  );
+
+  return (
+    <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+  );
+}
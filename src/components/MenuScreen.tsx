@@ -0,0 +1,571 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import LobbyBrowser from "@/components/LobbyBrowser";
+import { useI18n } from "@/components/LocaleProvider";
+import ProfileFields from "@/components/ProfileFields";
+import RulesModal from "@/components/RulesModal";
+import VariantFields from "@/components/VariantFields";
+import { BOT_DIFFICULTIES, BotDifficulty } from "@/lib/bots";
+import { BOARD_SIZES, MIN_NAME_LENGTH } from "@/lib/engine";
+import { errorText, fieldError } from "@/lib/errors";
+import type { GameAction, GameState } from "@/lib/gameReducer";
+import { LOBBY_CODE_LENGTH, parseLobbyCode } from "@/lib/invite";
+import {
+  HotSeatOptions,
+  MAX_HOT_SEAT_PLAYERS,
+  MIN_HOT_SEAT_PLAYERS,
+} from "@/lib/hotSeat";
+import { MAX_BOTS } from "@/lib/localGame";
+import { saveProfile } from "@/lib/profile";
+import { CLASSIC_VARIANT } from "@/lib/protocol";
+import type {
+  CreateLobbyRequest,
+  ErrorCode,
+  GameVariant,
+} from "@/lib/protocol";
+import { readGameRecord } from "@/lib/replay";
+
+export interface BotGameSettings {
+  boardSize: number;
+  botCount: number;
+  difficulty: BotDifficulty;
+  variant: GameVariant;
+}
+
+interface MenuScreenProps {
+  state: GameState;
+  dispatch: (action: GameAction) => void;
+  onCreate: (request: CreateLobbyRequest) => void;
+  onQuickMatch: () => void;
+  onJoin: (code: string) => void;
+  onWatch: (code: string) => void;
+  onPlayBots: (settings: BotGameSettings) => void;
+  onPlayHotSeat: (options: HotSeatOptions) => void;
+}
+
+export default function MenuScreen({
+  state,
+  dispatch,
+  onCreate,
+  onQuickMatch,
+  onJoin,
+  onWatch,
+  onPlayBots,
+  onPlayHotSeat,
+}: MenuScreenProps) {
+  const [boardSize, setBoardSize] = useState(20);
+  const [variant, setVariant] = useState<GameVariant>(CLASSIC_VARIANT);
+  const [isPublic, setIsPublic] = useState(false);
+  const [joinCodeInput, setJoinCodeInput] = useState(state.inviteCode ?? "");
+  const [botCount, setBotCount] = useState(3);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>("random");
+  const [seatNames, setSeatNames] = useState(["", ""]);
+  const [showInfo, setShowInfo] = useState(false);
+  const { playerName, error } = state;
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const setError = (message: string, code?: ErrorCode) =>
+    dispatch({ type: "errorRaised", message, code });
+  const goTo = (step: GameState["menuStep"]) =>
+    dispatch({ type: "menuStepChanged", step });
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    const { record, error } = readGameRecord(await file.text());
+    if (record) dispatch({ type: "replayOpened", record });
+    else setError(t("menu.invalidRecord", { reason: error }));
+  };
+
+  const validName = () => {
+    if (playerName.trim().length < MIN_NAME_LENGTH) {
+      setError(
+        t("error.name-too-short", { min: MIN_NAME_LENGTH }),
+        "name-too-short"
+      );
+      return false;
+    }
+    return true;
+  };
+
+  const nameError = fieldError(error, "name", i18n);
+  const codeError = fieldError(error, "code", i18n);
+  const watching = state.menuStep === "watch";
+  // Invite links already carry the code, so only the name is asked for
+  const invited = !watching && state.inviteCode !== null;
+  const codeInputShown =
+    (state.menuStep === "join" || watching) && !invited;
+
+  const nameInput = (
+    <div className="w-full mb-4">
+      <input
+        type="text"
+        value={playerName}
+        onChange={(e) => {
+          dispatch({ type: "nameChanged", name: e.target.value });
+          saveProfile({ name: e.target.value });
+        }}
+        placeholder={t("menu.namePlaceholder")}
+        aria-label={t("menu.nameLabel")}
+        aria-invalid={nameError !== null}
+        aria-describedby={nameError ? "name-error" : undefined}
+        className={`w-full p-2 border-2 rounded text-black font-bold bg-white ${
+          nameError ? "border-red-700" : "border-gray-800"
+        }`}
+      />
+      {nameError && (
+        <p
+          id="name-error"
+          role="alert"
+          className="mt-1 text-red-700 font-bold text-sm"
+        >
+          {nameError}
+        </p>
+      )}
+      {/* Spectators have no seat to show a profile on */}
+      {!watching && (
+        <ProfileFields
+          avatar={state.avatar}
+          color={state.color}
+          onAvatarChange={(avatar) => {
+            dispatch({ type: "avatarChanged", avatar });
+            saveProfile({ avatar });
+          }}
+          onColorChange={(color) => {
+            dispatch({ type: "colorChanged", color });
+            saveProfile({ color });
+          }}
+        />
+      )}
+    </div>
+  );
+
+  const boardSizeSelect = (
+    <div className="mb-4 w-full">
+      <label className="block text-black font-bold mb-2">
+        {t("menu.boardSize")}
+      </label>
+      <select
+        value={boardSize}
+        onChange={(e) => setBoardSize(Number(e.target.value))}
+        className="w-full p-2 border-2 border-gray-800 rounded text-black font-bold bg-white"
+      >
+        {BOARD_SIZES.map((size) => (
+          <option key={size} value={size}>
+            {t("common.numbers", { count: size })}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const variantFields = (
+    <VariantFields
+      variant={variant}
+      boardSize={boardSize}
+      onChange={setVariant}
+    />
+  );
+
+  // Errors that belong to a field on this form are shown under it instead
+  const errorBox = error && !nameError && !(codeError && codeInputShown) && (
+    <div
+      role="alert"
+      className="w-full mb-4 p-2 bg-red-100 text-red-700 border-2 border-red-700 rounded font-bold"
+    >
+      {errorText(error, i18n)}
+    </div>
+  );
+
+  const backButton = (
+    <button className="mt-2 text-blue-700 underline" onClick={() => goTo("menu")}>
+      {t("common.back")}
+    </button>
+  );
+
+  // Step 1: Main menu
+  if (state.menuStep === "menu") {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+        <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center relative">
+          <button
+            className="absolute top-2 right-2 text-gray-700 hover:text-black text-2xl"
+            onClick={() => setShowInfo(true)}
+            aria-label={t("menu.info")}
+          >
+            ℹ️
+          </button>
+          <div className="absolute top-2 left-2">
+            <LanguageSwitcher />
+          </div>
+          <h1 className="text-3xl font-bold mt-4 mb-8 text-black">
+            {t("menu.title")}
+          </h1>
+          <div className="flex flex-col gap-4 w-64">
+            <button
+              className="bg-blue-700 text-white font-bold py-3 rounded border-2 border-gray-800 hover:bg-blue-900"
+              onClick={() => goTo("create")}
+            >
+              {t("menu.create")}
+            </button>
+            <button
+              className="bg-green-700 text-white font-bold py-3 rounded border-2 border-gray-800 hover:bg-green-900"
+              onClick={() => goTo("join")}
+            >
+              {t("menu.join")}
+            </button>
+            <button
+              className="bg-teal-700 text-white font-bold py-3 rounded border-2 border-gray-800 hover:bg-teal-900"
+              onClick={() => goTo("browse")}
+            >
+              {t("menu.browse")}
+            </button>
+            <button
+              className="bg-yellow-600 text-white font-bold py-3 rounded border-2 border-gray-800 hover:bg-yellow-800"
+              onClick={() => goTo("watch")}
+            >
+              {t("menu.watch")}
+            </button>
+            <button
+              className="bg-purple-700 text-white font-bold py-3 rounded border-2 border-gray-800 hover:bg-purple-900"
+              onClick={() => goTo("bots")}
+            >
+              {t("menu.bots")}
+            </button>
+            <button
+              className="bg-orange-600 text-white font-bold py-3 rounded border-2 border-gray-800 hover:bg-orange-800"
+              onClick={() => goTo("hotseat")}
+            >
+              {t("menu.hotSeat")}
+            </button>
+            <label className="bg-white text-black text-center font-bold py-3 rounded border-2 border-gray-800 hover:bg-gray-200 cursor-pointer">
+              {t("menu.review")}
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  handleImport(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <Link
+              href="/stats"
+              className="text-center text-blue-700 font-bold underline"
+            >
+              {t("menu.stats")}
+            </Link>
+            <Link
+              href="/settings"
+              className="text-center text-blue-700 font-bold underline"
+            >
+              {t("menu.settings")}
+            </Link>
+          </div>
+          {error && <div className="w-64 mt-4">{errorBox}</div>}
+          {showInfo && (
+            <RulesModal
+              variant={CLASSIC_VARIANT}
+              onClose={() => setShowInfo(false)}
+            />
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // Step 2: Create lobby - enter name
+  if (state.menuStep === "create") {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+        <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center">
+          <h2 className="text-2xl font-bold mb-6 text-black">
+            {t("menu.create")}
+          </h2>
+          {nameInput}
+          {boardSizeSelect}
+          {variantFields}
+          <label className="mb-4 w-full flex items-center gap-2 text-black font-bold">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              onChange={(e) => setIsPublic(e.target.checked)}
+            />
+            {t("menu.public")}
+          </label>
+          {errorBox}
+          <button
+            className="bg-blue-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-blue-900 w-full"
+            onClick={() => {
+              if (validName()) onCreate({ boardSize, variant, isPublic });
+            }}
+          >
+            {t("menu.createLobby")}
+          </button>
+          {backButton}
+        </div>
+      </div>
+    );
+  }
+
+  // Step 2: Play against bots - enter name and pick opponents
+  if (state.menuStep === "bots") {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+        <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center">
+          <h2 className="text-2xl font-bold mb-6 text-black">
+            {t("menu.bots")}
+          </h2>
+          {nameInput}
+          {boardSizeSelect}
+          {variantFields}
+          <div className="mb-4 w-full">
+            <label className="block text-black font-bold mb-2">
+              {t("menu.botCount")}
+            </label>
+            <select
+              value={botCount}
+              onChange={(e) => setBotCount(Number(e.target.value))}
+              className="w-full p-2 border-2 border-gray-800 rounded text-black font-bold bg-white"
+            >
+              {Array.from({ length: MAX_BOTS }, (_, i) => i + 1).map((n) => (
+                <option key={n} value={n}>
+                  {t(n === 1 ? "menu.botsOne" : "menu.botsMany", { count: n })}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="mb-4 w-full">
+            <label className="block text-black font-bold mb-2">
+              {t("menu.difficulty")}
+            </label>
+            <select
+              value={botDifficulty}
+              onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+              className="w-full p-2 border-2 border-gray-800 rounded text-black font-bold bg-white"
+            >
+              {BOT_DIFFICULTIES.map((difficulty) => (
+                <option key={difficulty} value={difficulty}>
+                  {t(`bots.${difficulty}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {errorBox}
+          <button
+            className="bg-purple-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-purple-900 w-full"
+            onClick={() => {
+              if (validName()) {
+                onPlayBots({
+                  boardSize,
+                  botCount,
+                  difficulty: botDifficulty,
+                  variant,
+                });
+              }
+            }}
+          >
+            {t("common.start")}
+          </button>
+          {backButton}
+        </div>
+      </div>
+    );
+  }
+
+  // Step 2: Pass and play - enter everyone's name
+  if (state.menuStep === "hotseat") {
+    const handleStart = () => {
+      const names = seatNames.map((n) => n.trim());
+      if (names.some((n) => n.length < MIN_NAME_LENGTH)) {
+        setError(t("menu.seatNamesShort", { min: MIN_NAME_LENGTH }));
+        return;
+      }
+      const lower = names.map((n) => n.toLowerCase());
+      if (new Set(lower).size !== lower.length) {
+        setError(t("menu.seatNamesTaken"));
+        return;
+      }
+      onPlayHotSeat({ playerNames: names, boardSize, variant });
+    };
+
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+        <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center">
+          <h2 className="text-2xl font-bold mb-2 text-black">
+            {t("menu.hotSeat")}
+          </h2>
+          <p className="mb-6 text-black font-bold text-center">
+            {t("menu.hotSeatIntro")}
+          </p>
+          <div className="mb-4 w-full space-y-2">
+            {seatNames.map((name, i) => (
+              <div key={i} className="flex gap-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => {
+                    setSeatNames(
+                      seatNames.map((n, j) => (j === i ? e.target.value : n))
+                    );
+                    if (error) dispatch({ type: "errorDismissed" });
+                  }}
+                  placeholder={t("menu.seatPlaceholder", { number: i + 1 })}
+                  className="w-full p-2 border-2 border-gray-800 rounded text-black font-bold bg-white"
+                />
+                {seatNames.length > MIN_HOT_SEAT_PLAYERS && (
+                  <button
+                    onClick={() =>
+                      setSeatNames(seatNames.filter((_, j) => j !== i))
+                    }
+                    className="px-3 rounded border-2 border-red-700 bg-white text-red-700 font-bold hover:bg-red-100"
+                    aria-label={t("menu.removeSeat", { number: i + 1 })}
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ))}
+            {seatNames.length < MAX_HOT_SEAT_PLAYERS && (
+              <button
+                onClick={() => setSeatNames([...seatNames, ""])}
+                className="text-blue-700 underline font-bold"
+              >
+                {t("menu.addSeat")}
+              </button>
+            )}
+          </div>
+          {boardSizeSelect}
+          {variantFields}
+          {errorBox}
+          <button
+            className="bg-orange-600 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-orange-800 w-full"
+            onClick={handleStart}
+          >
+            {t("common.start")}
+          </button>
+          {backButton}
+        </div>
+      </div>
+    );
+  }
+
+  // Step 2: Browse public lobbies - enter name and pick one
+  if (state.menuStep === "browse") {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+        <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center w-full max-w-lg">
+          <h2 className="text-2xl font-bold mb-6 text-black">
+            {t("menu.browse")}
+          </h2>
+          {nameInput}
+          {errorBox}
+          <LobbyBrowser
+            lobbies={state.publicLobbies}
+            onJoin={(code) => {
+              if (validName()) onJoin(code);
+            }}
+            onWatch={(code) => {
+              if (validName()) onWatch(code);
+            }}
+          />
+          <button
+            className="bg-teal-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-teal-900 w-full"
+            onClick={() => {
+              if (validName()) onQuickMatch();
+            }}
+          >
+            {t("menu.quickMatch")}
+          </button>
+          {backButton}
+        </div>
+      </div>
+    );
+  }
+
+  // Step 2: Join or watch lobby - enter name and code
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+      <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center">
+        <h2 className="text-2xl font-bold mb-6 text-black">
+          {watching
+            ? t("menu.watch")
+            : invited
+            ? t("menu.joinInvited", { code: state.inviteCode ?? "" })
+            : t("menu.join")}
+        </h2>
+        {nameInput}
+        {codeInputShown && (
+          <div className="w-full mb-4">
+            <input
+              type="text"
+              value={joinCodeInput}
+              onChange={(e) => {
+                setJoinCodeInput(e.target.value.toUpperCase());
+                // Clear error when user starts typing
+                if (error) dispatch({ type: "errorDismissed" });
+              }}
+              placeholder={t("menu.codePlaceholder")}
+              aria-label={t("menu.codeLabel")}
+              aria-invalid={codeError !== null}
+              aria-describedby={codeError ? "code-error" : undefined}
+              className={`w-full p-2 border-2 rounded text-black font-bold bg-white uppercase ${
+                codeError ? "border-red-700" : "border-gray-800"
+              }`}
+              maxLength={LOBBY_CODE_LENGTH}
+            />
+            {codeError && (
+              <p
+                id="code-error"
+                role="alert"
+                className="mt-1 text-red-700 font-bold text-sm"
+              >
+                {codeError}
+              </p>
+            )}
+          </div>
+        )}
+        {errorBox}
+        <button
+          className="bg-green-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-green-900 w-full"
+          onClick={() => {
+            if (!validName()) return;
+            if (joinCodeInput.trim().length !== LOBBY_CODE_LENGTH) {
+              setError(
+                t("error.invalid-lobby-code", { length: LOBBY_CODE_LENGTH }),
+                "invalid-lobby-code"
+              );
+              return;
+            }
+            // Validate that the code only contains letters and numbers
+            const code = parseLobbyCode(joinCodeInput);
+            if (!code) {
+              setError(
+                t("error.invalid-lobby-code", { length: LOBBY_CODE_LENGTH }),
+                "invalid-lobby-code"
+              );
+              return;
+            }
+            if (watching) onWatch(code);
+            else onJoin(code);
+          }}
+        >
+          {watching ? t("menu.watchLobby") : t("menu.joinLobby")}
+        </button>
+        {invited && (
+          <button
+            className="mt-2 text-blue-700 underline"
+            onClick={() => goTo("watch")}
+          >
+            {t("menu.justWatch")}
+          </button>
+        )}
+        {backButton}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import { describeMove } from "@/lib/format";
+import type { Move } from "@/lib/protocol";
+
+interface MoveHistoryProps {
+  moves: Move[];
+}
+
+/** The game's move log, newest first. */
+export default function MoveHistory({ moves }: MoveHistoryProps) {
+  const i18n = useI18n();
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 border-2 border-gray-800">
+      <h2 className="text-xl font-bold mb-2 text-black">
+        {i18n.t("move.history")}
+      </h2>
+      {moves.length === 0 ? (
+        <p className="text-gray-500 font-bold">{i18n.t("move.none")}</p>
+      ) : (
+        <ol className="max-h-96 overflow-y-auto space-y-1">
+          {[...moves].reverse().map((move) => (
+            <li
+              key={move.turn}
+              className={`text-black text-sm p-1 rounded ${
+                move.knockedOut.length > 0 ? "bg-green-100 font-bold" : ""
+              }`}
+            >
+              <span className="font-bold text-gray-600">#{move.turn}</span>{" "}
+              {describeMove(move, i18n)}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
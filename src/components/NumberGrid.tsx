@@ -0,0 +1,123 @@
+"use client";
+
+import {
+  useId,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type ReactNode,
+} from "react";
+import { useI18n } from "@/components/LocaleProvider";
+
+// How long typed digits keep adding up to one number
+const TYPE_AHEAD_TIME = 1000;
+
+/** Props every tile needs for keyboard navigation. */
+export interface TileProps {
+  ref: (element: HTMLElement | null) => void;
+  tabIndex: number;
+  onFocus: () => void;
+}
+
+interface NumberGridProps {
+  boardSize: number;
+  /** The tiles, in reading order. */
+  numbers: number[];
+  label: string;
+  renderTile: (number: number, tile: TileProps) => ReactNode;
+}
+
+export function gridColumns(boardSize: number) {
+  return boardSize <= 20 ? 5 : boardSize <= 40 ? 8 : 10;
+}
+
+// Spelled out so Tailwind builds them
+const COLUMN_CLASSES: Record<number, string> = {
+  5: "grid-cols-5",
+  8: "grid-cols-8",
+  10: "grid-cols-10",
+};
+
+/**
+ * A board of number tiles with one tab stop: arrow keys, Home and End move
+ * between tiles, typing a number jumps to it, and Enter presses the tile.
+ */
+export default function NumberGrid({
+  boardSize,
+  numbers,
+  label,
+  renderTile,
+}: NumberGridProps) {
+  const { t } = useI18n();
+  const [active, setActive] = useState<number | null>(null);
+  const tiles = useRef(new Map<number, HTMLElement>());
+  const typed = useRef({ digits: "", at: 0 });
+  const helpId = useId();
+  const columns = gridColumns(boardSize);
+  const current =
+    active !== null && numbers.includes(active) ? active : numbers[0];
+
+  const moveTo = (number: number | undefined) => {
+    if (number === undefined) return;
+    setActive(number);
+    tiles.current.get(number)?.focus();
+  };
+
+  const typeDigit = (digit: string) => {
+    const now = Date.now();
+    const recent = now - typed.current.at < TYPE_AHEAD_TIME;
+    let digits = recent ? typed.current.digits + digit : digit;
+    // Start over when the digits no longer lead to any number on the board
+    if (!numbers.some((n) => String(n).startsWith(digits))) digits = digit;
+    typed.current = { digits, at: now };
+    moveTo(numbers.find((n) => String(n) === digits));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const index = numbers.indexOf(current);
+    const steps: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowRight: 1,
+      ArrowUp: -columns,
+      ArrowDown: columns,
+    };
+    if (e.key in steps) {
+      moveTo(numbers[index + steps[e.key]]);
+    } else if (e.key === "Home") {
+      moveTo(numbers[0]);
+    } else if (e.key === "End") {
+      moveTo(numbers.at(-1));
+    } else if (/^[0-9]$/.test(e.key)) {
+      typeDigit(e.key);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <>
+      <p id={helpId} className="sr-only">
+        {t("board.gridHelp")}
+      </p>
+      <div
+        role="group"
+        aria-label={label}
+        aria-describedby={helpId}
+        onKeyDown={handleKeyDown}
+        className={`grid gap-2 ${COLUMN_CLASSES[columns]}`}
+      >
+        {numbers.map((number) =>
+          renderTile(number, {
+            ref: (element) => {
+              if (element) tiles.current.set(number, element);
+              else tiles.current.delete(number);
+            },
+            tabIndex: number === current ? 0 : -1,
+            onFocus: () => setActive(number),
+          })
+        )}
+      </div>
+    </>
+  );
+}
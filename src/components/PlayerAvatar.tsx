@@ -0,0 +1,30 @@
+"use client";
+
+import { playerColor } from "@/lib/boardMarks";
+import type { Player } from "@/lib/protocol";
+
+interface PlayerAvatarProps {
+  players: Player[];
+  seatId: string;
+  /** Its first letter stands in when the player has no avatar. */
+  name: string;
+}
+
+/** The player's avatar on a disc of their colour; purely decorative. */
+export default function PlayerAvatar({
+  players,
+  seatId,
+  name,
+}: PlayerAvatarProps) {
+  const avatar = players.find((p) => p.seatId === seatId)?.avatar;
+  return (
+    <span
+      className={`inline-flex w-8 h-8 shrink-0 items-center justify-center rounded-full text-lg font-bold text-white ${
+        playerColor(players, seatId).swatch
+      }`}
+      aria-hidden="true"
+    >
+      {avatar ?? name.charAt(0).toUpperCase()}
+    </span>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import { PLAYER_COLORS } from "@/lib/boardMarks";
+import { AVATARS, PROFILE_COLORS, type ProfileColor } from "@/lib/profile";
+
+interface ProfileFieldsProps {
+  avatar: string;
+  color: ProfileColor;
+  onAvatarChange: (avatar: string) => void;
+  onColorChange: (color: ProfileColor) => void;
+}
+
+/** Avatar and colour pickers for the player's profile; collapsed by default. */
+export default function ProfileFields({
+  avatar,
+  color,
+  onAvatarChange,
+  onColorChange,
+}: ProfileFieldsProps) {
+  const { t } = useI18n();
+  const colorName = (c: ProfileColor) => t(`profile.color.${c}`);
+
+  return (
+    <details className="mt-2 w-full p-3 border-2 border-gray-800 rounded">
+      <summary className="text-black font-bold cursor-pointer">
+        {t("profile.summary", { avatar, color: colorName(color) })}
+      </summary>
+      <p className="block text-black font-bold mt-2 mb-1">
+        {t("profile.avatar")}
+      </p>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {AVATARS.map((a) => (
+          <button
+            key={a}
+            type="button"
+            onClick={() => onAvatarChange(a)}
+            aria-pressed={a === avatar}
+            className={`w-9 h-9 text-xl rounded border-2 ${
+              a === avatar ? "border-gray-800 bg-gray-200" : "border-transparent"
+            }`}
+          >
+            {a}
+          </button>
+        ))}
+      </div>
+      <p className="block text-black font-bold mb-1">{t("profile.color")}</p>
+      <div className="flex flex-wrap gap-1">
+        {PROFILE_COLORS.map((c) => (
+          <button
+            key={c}
+            type="button"
+            onClick={() => onColorChange(c)}
+            aria-pressed={c === color}
+            aria-label={colorName(c)}
+            title={colorName(c)}
+            className={`w-8 h-8 rounded-full border-4 ${PLAYER_COLORS[c].swatch} ${
+              c === color ? "border-gray-800" : "border-white"
+            }`}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-gray-600 mt-2">{t("profile.colorHint")}</p>
+    </details>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import type { FloatingReaction } from "@/lib/gameReducer";
+
+interface ReactionBubblesProps {
+  reactions: FloatingReaction[];
+  senderId: string;
+}
+
+/** Emoji reactions rising over a row; the row must be `relative`. */
+export default function ReactionBubbles({
+  reactions,
+  senderId,
+}: ReactionBubblesProps) {
+  const mine = reactions.filter((r) => r.senderId === senderId);
+  if (mine.length === 0) return null;
+  return (
+    <span className="pointer-events-none absolute right-2 -top-2 flex gap-1">
+      {mine.map((r) => (
+        <span key={r.key} className="reaction-float text-2xl" aria-hidden>
+          {r.emoji}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import ReplayViewer from "@/components/ReplayViewer";
+import type { GameRecord } from "@/lib/protocol";
+
+interface ReplayScreenProps {
+  record: GameRecord;
+  onClose: () => void;
+}
+
+/** Review of a game imported from a JSON file. */
+export default function ReplayScreen({ record, onClose }: ReplayScreenProps) {
+  const { t, locale } = useI18n();
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 w-full max-w-2xl">
+        <h2 className="text-2xl font-bold mb-1 text-black text-center">
+          {t("replay.title")}
+        </h2>
+        <p className="text-gray-600 font-bold mb-4 text-center">
+          {t("replay.played", {
+            date: new Date(record.playedAt).toLocaleString(locale),
+          })}
+        </p>
+        <ReplayViewer record={record} />
+        <button
+          onClick={onClose}
+          className="mt-6 w-full bg-gray-300 text-black px-4 py-2 rounded hover:bg-gray-400 font-bold border-2 border-gray-800"
+        >
+          {t("common.mainMenu")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/LocaleProvider";
+import { describeMove, getPlacementText } from "@/lib/format";
+import type { GameRecord } from "@/lib/protocol";
+import { createBoard } from "@/lib/engine";
+import { replayFrame } from "@/lib/replay";
+import { placementNumbers } from "@/lib/variants";
+
+interface ReplayViewerProps {
+  record: GameRecord;
+}
+
+/** Steps through a recorded game one move at a time. */
+export default function ReplayViewer({ record }: ReplayViewerProps) {
+  const i18n = useI18n();
+  const { t, locale } = i18n;
+  const [step, setStep] = useState(0);
+  const frame = replayFrame(record, step);
+  const last = record.moves.length;
+  const remaining = new Set(frame.numbers);
+  const board = createBoard(record.boardSize, record.variant.rangeStart);
+  const justCleared = frame.move
+    ? frame.move.cleared.length > 0
+      ? frame.move.cleared
+      : [frame.move.number]
+    : [];
+
+  const stepButton = (label: string, target: number, disabled: boolean) => (
+    <button
+      onClick={() => setStep(target)}
+      disabled={disabled}
+      className={`bg-white text-black font-bold px-3 py-1 rounded border-2 border-gray-800 ${
+        disabled ? "opacity-50 cursor-not-allowed" : "hover:bg-gray-200"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="text-black">
+      <div className="flex items-center justify-center gap-2 mb-2">
+        {stepButton("⏮", 0, step === 0)}
+        {stepButton(t("replay.prev"), step - 1, step === 0)}
+        <span className="font-bold px-2 tabular-nums">
+          {t("replay.step", { step: frame.step, last })}
+        </span>
+        {stepButton(t("replay.next"), step + 1, frame.finished)}
+        {stepButton("⏭", last, frame.finished)}
+      </div>
+      <p className="font-bold text-center mb-4 min-h-6">
+        {frame.move ? describeMove(frame.move, i18n) : t("replay.start")}
+      </p>
+      <div
+        className={`grid gap-2 mb-4 ${
+          record.boardSize <= 20
+            ? "grid-cols-5"
+            : record.boardSize <= 40
+            ? "grid-cols-8"
+            : "grid-cols-10"
+        }`}
+      >
+        {board.map((number) => {
+          const justPlayed = justCleared.includes(number);
+          return (
+            <div
+              key={number}
+              className={`p-2 border-2 rounded text-center font-bold text-sm
+                ${
+                  justPlayed
+                    ? "bg-red-200 border-red-700"
+                    : remaining.has(number)
+                    ? "bg-white border-gray-800"
+                    : "bg-gray-200 border-gray-400 text-gray-500 line-through"
+                }
+              `}
+            >
+              {number}
+            </div>
+          );
+        })}
+      </div>
+      <h3 className="text-lg font-bold mb-1">
+        {frame.finished ? t("replay.final") : t("replay.soFar")}
+      </h3>
+      {(frame.finished ? record.placements : frame.knockedOut).map((p) => (
+        <p key={p.seatId} className="font-bold">
+          {t(
+            placementNumbers(p).length > 1
+              ? "gameOver.placementMany"
+              : "gameOver.placementOne",
+            {
+              place: getPlacementText(p.placement, locale),
+              name: p.name,
+              numbers: placementNumbers(p).join(", "),
+            }
+          )}
+        </p>
+      ))}
+      {!frame.finished && frame.knockedOut.length === 0 && (
+        <p className="text-gray-500 font-bold">{t("replay.nobody")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import { formatChance, getPlacementText } from "@/lib/format";
+import type { CandidateRisk } from "@/lib/risk";
+
+interface RiskAssistantProps {
+  /** The number being looked at, or the suggested one. */
+  risk: CandidateRisk | null;
+  isBest: boolean;
+  myTurn: boolean;
+  /** The estimates for this turn are still being worked out. */
+  thinking: boolean;
+}
+
+/** The risk assistant's estimate for one number, under the board. */
+export default function RiskAssistant({
+  risk,
+  isBest,
+  myTurn,
+  thinking,
+}: RiskAssistantProps) {
+  const { t, locale } = useI18n();
+  return (
+    <div
+      aria-live="polite"
+      className="mt-4 p-3 bg-indigo-50 border-2 border-indigo-700 rounded text-black"
+    >
+      {!myTurn ? (
+        <p className="font-bold">{t("assistant.notYourTurn")}</p>
+      ) : thinking ? (
+        <p className="font-bold">{t("assistant.thinking")}</p>
+      ) : !risk ? (
+        <p className="font-bold">{t("assistant.nothingLeft")}</p>
+      ) : (
+        <>
+          <p className="font-bold mb-1">
+            {t("assistant.estimate", {
+              number: risk.number,
+              suggested: isBest ? t("assistant.suggested") : "",
+              chance: formatChance(risk.knockoutChance, locale),
+              place: getPlacementText(
+                Math.round(risk.expectedPlacement),
+                locale
+              ),
+            })}
+          </p>
+          <ul className="flex flex-wrap gap-x-3 text-sm font-bold text-gray-700">
+            {risk.placementOdds.map((odds, index) => (
+              <li key={index}>
+                {t("assistant.odds", {
+                  place: getPlacementText(index + 1, locale),
+                  chance: formatChance(odds, locale),
+                })}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-600 mt-1">
+            {t("assistant.disclaimer")}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import type { GameVariant } from "@/lib/protocol";
+import { describeVariant, variantRules } from "@/lib/variants";
+
+interface RulesModalProps {
+  variant: GameVariant;
+  boardSize?: number;
+  onClose: () => void;
+}
+
+/** How to Play, worded for the rules the lobby actually uses. */
+export default function RulesModal({
+  variant,
+  boardSize,
+  onClose,
+}: RulesModalProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-40 z-50">
+      <div className="bg-white p-6 rounded-lg border-2 border-gray-800 max-w-md text-black text-left">
+        <h2 className="text-xl font-bold mb-2">{t("rules.title")}</h2>
+        {boardSize !== undefined && (
+          <p className="font-bold text-blue-700 mb-2">
+            {describeVariant(variant, boardSize, i18n)}
+          </p>
+        )}
+        <p className="mb-2">{t("rules.intro")}</p>
+        <ul className="list-disc pl-5 space-y-1">
+          {variantRules(variant, i18n).map((rule) => (
+            <li key={rule}>{rule}</li>
+          ))}
+        </ul>
+        <button
+          className="mt-4 bg-blue-700 text-white px-4 py-2 rounded border-2 border-gray-800 font-bold hover:bg-blue-900"
+          onClick={onClose}
+        >
+          {t("common.close")}
+        </button>
+      </div>
+    </div>
+  );
+}
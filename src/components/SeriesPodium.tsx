@@ -0,0 +1,63 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import type { GameState } from "@/lib/gameReducer";
+import {
+  isSeriesOver,
+  seriesCsv,
+  seriesFileName,
+  seriesStandings,
+} from "@/lib/series";
+
+const MEDALS = ["🥇", "🥈", "🥉"];
+
+interface SeriesPodiumProps {
+  state: GameState;
+}
+
+/** The top three of a finished series, and a download of the full results. */
+export default function SeriesPodium({ state }: SeriesPodiumProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  if (!isSeriesOver(state.series, state.seriesLength)) return null;
+  const standings = seriesStandings(state.series, state.tieBreak);
+  // Shared ranks share a step, so the podium may hold more than three
+  const podium = standings.filter((s) => s.rank <= MEDALS.length);
+  const winners = standings.filter((s) => s.rank === 1).map((s) => s.name);
+
+  const handleExport = () => {
+    const csv = seriesCsv(standings, state.seriesLength, i18n);
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = seriesFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-yellow-50 border-2 border-yellow-700 rounded">
+      <h3 className="text-xl font-bold mb-1 text-black">{t("series.podium")}</h3>
+      <p className="text-yellow-900 font-bold mb-2">
+        {t("series.winner", { names: winners.join(t("series.and")) })}
+      </p>
+      <ol className="mb-3">
+        {podium.map((standing) => (
+          <li key={standing.seatId} className="text-black font-bold text-lg">
+            {MEDALS[standing.rank - 1]} {standing.name}{" "}
+            <span className="text-gray-600 text-sm">
+              {t("series.pointsShort", { count: standing.points })}
+            </span>
+          </li>
+        ))}
+      </ol>
+      <button
+        onClick={handleExport}
+        className="bg-white text-black px-4 py-2 rounded hover:bg-gray-200 font-bold border-2 border-gray-800"
+      >
+        {t("series.export")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import { getPlacementText } from "@/lib/format";
+import { GameState, mySeatId } from "@/lib/gameReducer";
+import { seriesStandings } from "@/lib/series";
+
+interface SeriesScoreboardProps {
+  state: GameState;
+}
+
+/** Running points of the lobby's series, with every player's finish per game. */
+export default function SeriesScoreboard({ state }: SeriesScoreboardProps) {
+  const { t, locale } = useI18n();
+  const { series, seriesLength } = state;
+  if (seriesLength <= 1 || series.length === 0) return null;
+  const standings = seriesStandings(series, state.tieBreak);
+  const seatId = mySeatId(state);
+  const games = Array.from({ length: seriesLength }, (_, i) => i + 1);
+
+  return (
+    <div className="mb-4 p-3 border-2 border-gray-800 rounded text-black text-left">
+      <h3 className="text-lg font-bold">{t("series.title")}</h3>
+      <p className="text-sm font-bold text-gray-600 mb-2">
+        {t("series.progress", { played: series.length, count: seriesLength })}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full font-bold text-sm">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th>#</th>
+              <th>{t("series.player")}</th>
+              <th>{t("series.points")}</th>
+              <th>{t("series.wins")}</th>
+              {games.map((number) => (
+                <th key={number} title={t("series.game", { number })}>
+                  {t("series.gameShort", { number })}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map((standing) => (
+              <tr
+                key={standing.seatId}
+                className={standing.seatId === seatId ? "text-green-700" : ""}
+              >
+                <td>{standing.rank}</td>
+                <td>{standing.name}</td>
+                <td>{standing.points}</td>
+                <td>{standing.wins}</td>
+                {games.map((number, i) => {
+                  const finish = standing.finishes[i];
+                  return (
+                    <td key={number} className="text-gray-600">
+                      {finish === undefined
+                        ? ""
+                        : finish === null
+                        ? "–"
+                        : getPlacementText(finish, locale)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-600 mt-2">{t("series.scoring")}</p>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect } from "react";
+
+/** Registers `public/sw.js`, which keeps the app shell available offline. */
+export default function ServiceWorker() {
+  useEffect(() => {
+    // A cached shell would hide edits from the dev server
+    if (process.env.NODE_ENV !== "production") return;
+    if (!("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch(() => {
+      // Not fatal; the app just won't load offline
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useI18n } from "@/components/LocaleProvider";
+import type { MessageKey } from "@/lib/i18n";
+import { canNotify } from "@/lib/notifications";
+import {
+  loadSettings,
+  NOTIFY_EVENTS,
+  NotifyEvent,
+  saveSettings,
+  Settings,
+} from "@/lib/settings";
+
+const EVENT_LABELS: Record<NotifyEvent, MessageKey> = {
+  turn: "settings.notifyTurn",
+  eliminated: "settings.notifyEliminated",
+  gameOver: "settings.notifyGameOver",
+};
+
+type Permission = NotificationPermission | "unsupported";
+
+export default function SettingsScreen() {
+  const { t } = useI18n();
+  // Read after mounting; the server has no access to local storage
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [permission, setPermission] = useState<Permission>("unsupported");
+
+  useEffect(() => {
+    setSettings(loadSettings());
+    if (canNotify()) setPermission(Notification.permission);
+  }, []);
+
+  if (!settings) return null;
+
+  const askPermission = async () => {
+    if (!canNotify()) return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  const toggle = (event: NotifyEvent, enabled: boolean) => {
+    const notifications = { ...settings.notifications, [event]: enabled };
+    setSettings(saveSettings({ notifications }));
+    // Turning the first one on is the natural moment to ask
+    if (enabled && permission === "default") askPermission();
+  };
+
+  return (
+    <div className="min-h-screen p-8 bg-gray-100 text-black">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold">{t("settings.title")}</h1>
+          <Link
+            href="/"
+            className="bg-blue-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-blue-900"
+          >
+            {t("stats.back")}
+          </Link>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-lg border-2 border-gray-800">
+          <h2 className="text-2xl font-bold mb-2">
+            {t("settings.notifications")}
+          </h2>
+          <p className="text-gray-600 font-bold mb-4">
+            {t("settings.notificationsIntro")}
+          </p>
+          <div className="space-y-2 mb-4">
+            {NOTIFY_EVENTS.map((event) => (
+              <label key={event} className="flex items-center gap-2 font-bold">
+                <input
+                  type="checkbox"
+                  checked={settings.notifications[event]}
+                  onChange={(e) => toggle(event, e.target.checked)}
+                />
+                {t(EVENT_LABELS[event])}
+              </label>
+            ))}
+          </div>
+          {permission === "default" ? (
+            <button
+              onClick={askPermission}
+              className="bg-white text-black px-4 py-2 rounded hover:bg-gray-200 font-bold border-2 border-gray-800"
+            >
+              {t("settings.allow")}
+            </button>
+          ) : (
+            <p className="text-sm font-bold text-gray-600">
+              {t(
+                permission === "granted"
+                  ? "settings.allowed"
+                  : permission === "denied"
+                  ? "settings.blocked"
+                  : "settings.unsupported"
+              )}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
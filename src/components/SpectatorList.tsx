@@ -0,0 +1,39 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import ReactionBubbles from "@/components/ReactionBubbles";
+import type { FloatingReaction } from "@/lib/gameReducer";
+import type { Spectator } from "@/lib/protocol";
+
+interface SpectatorListProps {
+  spectators: Spectator[];
+  myId: string | null;
+  reactions: FloatingReaction[];
+}
+
+export default function SpectatorList({
+  spectators,
+  myId,
+  reactions,
+}: SpectatorListProps) {
+  const { t } = useI18n();
+  if (spectators.length === 0) return null;
+  return (
+    <div className="mt-4">
+      <h3 className="text-lg font-bold mb-2 text-black">
+        {t("lobby.spectators", { count: spectators.length })}
+      </h3>
+      <ul>
+        {spectators.map((spectator) => (
+          <li key={spectator.id} className="relative text-gray-700 font-bold">
+            👀 {spectator.name}
+            {spectator.id === myId && (
+              <span className="ml-2 text-green-700">{t("common.you")}</span>
+            )}
+            <ReactionBubbles reactions={reactions} senderId={spectator.id} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
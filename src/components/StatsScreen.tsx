@@ -0,0 +1,181 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useI18n } from "@/components/LocaleProvider";
+import TrendChart from "@/components/TrendChart";
+import { formatChance, getPlacementText } from "@/lib/format";
+import {
+  clearHistory,
+  computeStats,
+  GameSummary,
+  HEAD_TO_HEAD_MIN_GAMES,
+  loadHistory,
+} from "@/lib/stats";
+
+const RECENT_GAMES = 20;
+
+export default function StatsScreen() {
+  const { t, locale } = useI18n();
+  // Read after mounting; the server has no access to local storage
+  const [history, setHistory] = useState<GameSummary[] | null>(null);
+
+  useEffect(() => {
+    setHistory(loadHistory());
+  }, []);
+
+  if (!history) return null;
+  const stats = computeStats(history);
+
+  const handleClear = () => {
+    if (!window.confirm(t("stats.confirmClear"))) return;
+    clearHistory();
+    setHistory([]);
+  };
+
+  const card = (label: string, value: string) => (
+    <div className="bg-white p-4 rounded-lg border-2 border-gray-800 text-center">
+      <p className="text-gray-600 font-bold text-sm">{label}</p>
+      <p className="text-3xl font-bold text-black">{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen p-8 bg-gray-100 text-black">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold">{t("stats.title")}</h1>
+          <Link
+            href="/"
+            className="bg-blue-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-blue-900"
+          >
+            {t("stats.back")}
+          </Link>
+        </div>
+
+        {stats.gamesPlayed === 0 ? (
+          <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 text-center font-bold">
+            {t("stats.empty")}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {card(t("stats.played"), String(stats.gamesPlayed))}
+              {card(
+                t("stats.average"),
+                stats.averagePlacement.toLocaleString(locale, {
+                  minimumFractionDigits: 1,
+                  maximumFractionDigits: 1,
+                })
+              )}
+              {card(t("stats.firstPlace"), formatChance(stats.winRate, locale))}
+              {card(
+                t("stats.lastPlace"),
+                formatChance(stats.lastPlaceRate, locale)
+              )}
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-lg border-2 border-gray-800">
+              <h2 className="text-2xl font-bold mb-4">{t("stats.trend")}</h2>
+              <TrendChart trend={stats.trend} />
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="bg-white p-6 rounded-lg shadow-lg border-2 border-gray-800">
+                <h2 className="text-2xl font-bold mb-4">
+                  {t("stats.favourites")}
+                </h2>
+                <ol className="space-y-1">
+                  {stats.favouriteNumbers.map(({ number, count }) => (
+                    <li key={number} className="font-bold">
+                      {number}{" "}
+                      <span className="text-gray-600">
+                        {t(count === 1 ? "stats.gamesOne" : "stats.gamesMany", {
+                          count,
+                        })}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              <div className="bg-white p-6 rounded-lg shadow-lg border-2 border-gray-800">
+                <h2 className="text-2xl font-bold mb-4">
+                  {t("stats.headToHead")}
+                </h2>
+                {stats.headToHead.length === 0 ? (
+                  <p className="text-gray-500 font-bold">
+                    {t("stats.headToHeadEmpty", {
+                      count: HEAD_TO_HEAD_MIN_GAMES,
+                    })}
+                  </p>
+                ) : (
+                  <table className="w-full font-bold">
+                    <thead>
+                      <tr className="text-left text-gray-600 text-sm">
+                        <th>{t("stats.opponent")}</th>
+                        <th>{t("stats.games")}</th>
+                        <th>{t("stats.ahead")}</th>
+                        <th>{t("stats.behind")}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stats.headToHead.map((rival) => (
+                        <tr key={rival.name}>
+                          <td>{rival.name}</td>
+                          <td>{rival.games}</td>
+                          <td className="text-green-700">{rival.wins}</td>
+                          <td className="text-red-700">{rival.losses}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-lg border-2 border-gray-800">
+              <h2 className="text-2xl font-bold mb-4">
+                {t("stats.recent")}
+              </h2>
+              <ul className="space-y-2">
+                {[...history]
+                  .reverse()
+                  .slice(0, RECENT_GAMES)
+                  .map((game) => (
+                    <li
+                      key={game.id}
+                      className="p-2 rounded border-2 border-gray-300"
+                    >
+                      <p className="font-bold">
+                        {t("stats.recentGame", {
+                          place: getPlacementText(game.myPlacement, locale),
+                          size: game.lobbySize,
+                          number: game.myNumber,
+                          board: game.boardSize,
+                        })}
+                        {game.mode === "bots" && t("stats.vsBots")}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {t("stats.against", {
+                          date: new Date(game.playedAt).toLocaleString(locale),
+                          names: game.opponents.map((o) => o.name).join(", "),
+                        })}
+                      </p>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+
+            <button
+              onClick={handleClear}
+              className="bg-red-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-red-900"
+            >
+              {t("stats.clear")}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+
+interface StatusScreenProps {
+  title: string;
+  /** A longer explanation below the title, e.g. why it is taking so long. */
+  detail?: string;
+  onRetry?: () => void;
+  onCancel?: () => void;
+}
+
+/** A card with a single status line, shown while waiting on the server. */
+export default function StatusScreen({
+  title,
+  detail,
+  onRetry,
+  onCancel,
+}: StatusScreenProps) {
+  const { t } = useI18n();
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+      <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-gray-800 flex flex-col items-center max-w-md text-center">
+        <h2 className="text-2xl font-bold mb-6 text-black">{title}</h2>
+        {detail && <p className="text-black mb-6">{detail}</p>}
+        {onRetry && (
+          <button
+            className="bg-blue-700 text-white font-bold py-2 px-4 rounded border-2 border-gray-800 hover:bg-blue-900 mb-4"
+            onClick={onRetry}
+          >
+            {t("common.tryAgain")}
+          </button>
+        )}
+        {onCancel && (
+          <button className="text-blue-700 underline" onClick={onCancel}>
+            {t("common.backToMenu")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect } from "react";
+import { useI18n } from "@/components/LocaleProvider";
+
+interface ToastProps {
+  message: string;
+  onDismiss: () => void;
+}
+
+/** A notice floating over the page until it expires or is closed. */
+export default function Toast({ message, onDismiss }: ToastProps) {
+  const { t } = useI18n();
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onDismiss();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onDismiss]);
+
+  return (
+    <div
+      role="alert"
+      className="fixed top-12 left-1/2 -translate-x-1/2 z-50 flex items-start gap-3 w-max max-w-[90vw] p-3 bg-red-100 text-red-700 border-2 border-red-700 rounded-lg shadow-lg font-bold"
+    >
+      <span>{message}</span>
+      <button
+        className="leading-none text-red-700 hover:text-red-900"
+        onClick={onDismiss}
+        aria-label={t("common.dismiss")}
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import type { Stats } from "@/lib/stats";
+
+interface TrendChartProps {
+  trend: Stats["trend"];
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 24;
+// Games averaged into the smoothed line
+const ROLLING_WINDOW = 5;
+
+/** Placement per game over time, first place at the top. */
+export default function TrendChart({ trend }: TrendChartProps) {
+  const i18n = useI18n();
+  if (trend.length < 2) {
+    return (
+      <p className="text-gray-500 font-bold">{i18n.t("stats.trendEmpty")}</p>
+    );
+  }
+
+  const x = (i: number) =>
+    PADDING + (i / (trend.length - 1)) * (WIDTH - 2 * PADDING);
+  const y = (score: number) => PADDING + score * (HEIGHT - 2 * PADDING);
+  const rolling = trend.map((_, i) => {
+    const recent = trend.slice(Math.max(0, i - ROLLING_WINDOW + 1), i + 1);
+    return recent.reduce((sum, t) => sum + t.score, 0) / recent.length;
+  });
+  const line = (scores: number[]) =>
+    scores.map((score, i) => `${x(i)},${y(score)}`).join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={i18n.t("stats.trendLabel", { count: trend.length })}
+    >
+      <line
+        x1={PADDING}
+        y1={y(0)}
+        x2={WIDTH - PADDING}
+        y2={y(0)}
+        stroke="#d1d5db"
+        strokeDasharray="4"
+      />
+      <line
+        x1={PADDING}
+        y1={y(1)}
+        x2={WIDTH - PADDING}
+        y2={y(1)}
+        stroke="#d1d5db"
+        strokeDasharray="4"
+      />
+      <text x={2} y={y(0) + 4} fontSize="12" fontWeight="bold" fill="#15803d">
+        {i18n.t("stats.trendFirst")}
+      </text>
+      <text x={2} y={y(1) + 4} fontSize="12" fontWeight="bold" fill="#b91c1c">
+        {i18n.t("stats.trendLast")}
+      </text>
+      <polyline
+        points={line(trend.map((t) => t.score))}
+        fill="none"
+        stroke="#9ca3af"
+        strokeWidth="2"
+      />
+      <polyline
+        points={line(rolling)}
+        fill="none"
+        stroke="#1d4ed8"
+        strokeWidth="3"
+      />
+      {trend.map((t, i) => (
+        <circle key={i} cx={x(i)} cy={y(t.score)} r="3" fill="#374151">
+          <title>{new Date(t.playedAt).toLocaleDateString(i18n.locale)}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
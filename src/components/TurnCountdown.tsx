@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@/components/LocaleProvider";
+
+/** Seconds at which the countdown starts warning the players. */
+export const WARNING_SECONDS = 5;
+
+/**
+ * Whole seconds left in the current turn, ticking down locally from the
+ * server's `timeLeft`. `turnKey` restarts it; null means no time limit.
+ */
+export function useTurnCountdown(timeLeft: number | null, turnKey: number) {
+  const [seconds, setSeconds] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (timeLeft === null) {
+      setSeconds(null);
+      return;
+    }
+    // Only the remaining time is sent, so clock skew with the server is moot
+    const deadline = Date.now() + timeLeft;
+    const tick = () =>
+      setSeconds(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [timeLeft, turnKey]);
+
+  return seconds;
+}
+
+interface TurnCountdownProps {
+  seconds: number;
+  large?: boolean;
+}
+
+export default function TurnCountdown({ seconds, large }: TurnCountdownProps) {
+  const { t } = useI18n();
+  const warning = seconds <= WARNING_SECONDS;
+  return (
+    <span
+      className={`inline-block font-bold rounded-full border tabular-nums
+        ${large ? "text-lg px-3 py-1" : "text-sm px-3 py-1"}
+        ${
+          warning
+            ? "bg-red-200 text-red-900 border-red-700 animate-pulse"
+            : "bg-gray-100 text-black border-gray-800"
+        }
+      `}
+      aria-label={t("common.secondsLeft", { count: seconds })}
+    >
+      ⏱ {seconds}s
+    </span>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useI18n } from "@/components/LocaleProvider";
+import type { GameVariant } from "@/lib/protocol";
+import {
+  describeVariant,
+  MAX_RANGE_START,
+  MAX_SECRET_NUMBERS,
+} from "@/lib/variants";
+
+interface VariantFieldsProps {
+  variant: GameVariant;
+  boardSize: number;
+  onChange: (variant: GameVariant) => void;
+}
+
+const selectClass =
+  "w-full p-2 border-2 border-gray-800 rounded text-black font-bold bg-white mb-2";
+
+/** Rule variant options for a new game; collapsed to a summary by default. */
+export default function VariantFields({
+  variant,
+  boardSize,
+  onChange,
+}: VariantFieldsProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const update = (changes: Partial<GameVariant>) =>
+    onChange({ ...variant, ...changes });
+
+  return (
+    <details className="mb-4 w-full p-3 border-2 border-gray-800 rounded">
+      <summary className="text-black font-bold cursor-pointer">
+        {t("rules.summary", {
+          rules: describeVariant(variant, boardSize, i18n),
+        })}
+      </summary>
+      <div className="mt-2">
+        <label className="block text-black font-bold mb-2">
+          {t("rules.lastPlayer")}
+        </label>
+        <select
+          value={variant.lastSurvivor}
+          onChange={(e) =>
+            update({
+              lastSurvivor: e.target.value as GameVariant["lastSurvivor"],
+            })
+          }
+          className={selectClass}
+        >
+          <option value="loses">{t("rules.loses")}</option>
+          <option value="wins">{t("rules.wins")}</option>
+        </select>
+        <label className="block text-black font-bold mb-2">
+          {t("rules.secretCount")}
+        </label>
+        <select
+          value={variant.secretCount}
+          onChange={(e) => update({ secretCount: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {Array.from({ length: MAX_SECRET_NUMBERS }, (_, i) => i + 1).map(
+            (n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            )
+          )}
+        </select>
+        <label className="block text-black font-bold mb-2">
+          {t("rules.firstNumber")}
+        </label>
+        <input
+          type="number"
+          min={0}
+          max={MAX_RANGE_START}
+          value={variant.rangeStart}
+          onChange={(e) => {
+            const start = Math.trunc(Number(e.target.value));
+            update({
+              rangeStart: Math.min(Math.max(start, 0), MAX_RANGE_START),
+            });
+          }}
+          className={selectClass}
+        />
+        <label className="flex items-center gap-2 text-black font-bold">
+          <input
+            type="checkbox"
+            checked={variant.neighbours}
+            onChange={(e) => update({ neighbours: e.target.checked })}
+          />
+          {t("rules.neighboursOption")}
+        </label>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,53 @@
+import { describeMove, getPlacementText } from "./format";
+import { GameState, isMyTurn, mySeatId } from "./gameReducer";
+import type { Translator } from "./i18n";
+
+/**
+ * What a screen reader should hear after the state went from `prev` to
+ * `next`: new moves with their knockouts, whose turn it is, and how the game
+ * ended. Errors announce themselves through `role="alert"` where they show.
+ */
+export function announcement(
+  prev: GameState,
+  next: GameState,
+  i18n: Translator
+): string | null {
+  const { t } = i18n;
+  const parts: string[] = [];
+  if (next.phase === "playing" && prev.phase !== "playing") {
+    parts.push(t("announce.started"));
+  }
+  // The move list starts over for a rematch, which needs no announcing
+  if (next.moves.length > prev.moves.length) {
+    for (const move of next.moves.slice(prev.moves.length)) {
+      parts.push(`${describeMove(move, i18n)}.`);
+    }
+  }
+  if (
+    next.phase === "playing" &&
+    next.currentTurn &&
+    (next.currentTurn !== prev.currentTurn || prev.phase !== "playing")
+  ) {
+    parts.push(
+      isMyTurn(next)
+        ? t("announce.yourTurn")
+        : next.currentPlayerName
+        ? t("announce.turn", { name: next.currentPlayerName })
+        : t("announce.turnUnknown")
+    );
+  }
+  if (next.phase === "gameOver" && prev.phase !== "gameOver") {
+    const seatId = mySeatId(next);
+    const mine = next.gameOverInfo?.placements.find(
+      (p) => p.seatId === seatId
+    );
+    parts.push(
+      mine
+        ? t("announce.placement", {
+            place: getPlacementText(mine.placement, i18n.locale),
+          })
+        : t("announce.gameOver")
+    );
+  }
+  return parts.length > 0 ? parts.join(" ") : null;
+}
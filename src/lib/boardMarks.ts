@@ -0,0 +1,100 @@
+import { isProfileColor, PROFILE_COLORS } from "./profile";
+import type { ProfileColor } from "./profile";
+import type { Move, Player } from "./protocol";
+
+/** Tailwind classes for one player's colour; spelled out so they get built. */
+export interface PlayerColor {
+  /** An eliminated tile. */
+  tile: string;
+  /** A swatch next to the player's name. */
+  swatch: string;
+}
+
+export const PLAYER_COLORS: Record<ProfileColor, PlayerColor> = {
+  red: { tile: "bg-red-100 border-red-400 text-red-800", swatch: "bg-red-500" },
+  blue: {
+    tile: "bg-blue-100 border-blue-400 text-blue-800",
+    swatch: "bg-blue-500",
+  },
+  amber: {
+    tile: "bg-amber-100 border-amber-400 text-amber-800",
+    swatch: "bg-amber-500",
+  },
+  purple: {
+    tile: "bg-purple-100 border-purple-400 text-purple-800",
+    swatch: "bg-purple-500",
+  },
+  teal: {
+    tile: "bg-teal-100 border-teal-400 text-teal-800",
+    swatch: "bg-teal-500",
+  },
+  pink: {
+    tile: "bg-pink-100 border-pink-400 text-pink-800",
+    swatch: "bg-pink-500",
+  },
+  lime: {
+    tile: "bg-lime-100 border-lime-500 text-lime-800",
+    swatch: "bg-lime-500",
+  },
+  orange: {
+    tile: "bg-orange-100 border-orange-400 text-orange-800",
+    swatch: "bg-orange-500",
+  },
+  cyan: {
+    tile: "bg-cyan-100 border-cyan-400 text-cyan-800",
+    swatch: "bg-cyan-500",
+  },
+  fuchsia: {
+    tile: "bg-fuchsia-100 border-fuchsia-400 text-fuchsia-800",
+    swatch: "bg-fuchsia-500",
+  },
+};
+
+const UNKNOWN_COLOR: PlayerColor = {
+  tile: "bg-gray-200 border-gray-400 text-gray-500",
+  swatch: "bg-gray-400",
+};
+
+/**
+ * The colour the player picked for their profile, or one by seat order from
+ * servers that don't pass it on; players who left get grey.
+ */
+export function playerColor(
+  players: Player[],
+  seatId: string | undefined
+): PlayerColor {
+  const index = players.findIndex((p) => p.seatId === seatId);
+  if (index === -1) return UNKNOWN_COLOR;
+  const { color } = players[index];
+  const fallback = PROFILE_COLORS[index % PROFILE_COLORS.length];
+  return PLAYER_COLORS[isProfileColor(color) ? color : fallback];
+}
+
+/** A number taken off the board, and by whom. */
+export interface EliminationMark {
+  playerName: string;
+  seatId: string;
+  turn: number;
+}
+
+/** Who cleared each eliminated number, from the game's moves. */
+export function eliminationMarks(moves: Move[]): Map<number, EliminationMark> {
+  const marks = new Map<number, EliminationMark>();
+  for (const move of moves) {
+    // Moves from servers that predate `cleared` only name the picked number
+    const cleared =
+      move.cleared.length > 0
+        ? move.cleared
+        : move.number !== null
+        ? [move.number]
+        : [];
+    for (const number of cleared) {
+      marks.set(number, {
+        playerName: move.playerName,
+        seatId: move.seatId,
+        turn: move.turn,
+      });
+    }
+  }
+  return marks;
+}
@@ -0,0 +1,80 @@
+export type BotDifficulty = "random" | "cautious" | "adversarial";
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = [
+  "random",
+  "cautious",
+  "adversarial",
+];
+
+export const BOT_NAMES = [
+  "Robo Rita",
+  "Bit Bob",
+  "Chip",
+  "Captain Cache",
+  "Pixel",
+  "Sir Loop",
+  "Nano Nina",
+  "Turbo Tom",
+  "Byte Betty",
+];
+
+/** What a bot may look at when choosing a number to eliminate. */
+export interface BotView {
+  numbers: number[];
+  ownNumbers: number[];
+  /** Secret numbers the bot must not hit; only adversarial bots get these. */
+  avoid?: number[];
+  /** Secret numbers the bot would like to hit; only adversarial bots get these. */
+  prefer?: number[];
+}
+
+const pick = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+
+// Rough guess at how likely a person is to choose a number as their secret:
+// favourites like 7 and 13, small numbers, and round numbers go first.
+function popularity(n: number) {
+  let weight = 1;
+  if ([3, 7, 13, 17, 21, 42, 69].includes(n)) weight += 3;
+  if (n % 10 === 7) weight += 1;
+  if (n <= 10) weight += 1;
+  if (n % 10 === 0) weight += 0.5;
+  return weight;
+}
+
+/** Bots pick their secret uniformly; guessing them should be no easier than guessing a human's. */
+export function chooseSecretNumber(
+  boardSize: number,
+  rangeStart = 1,
+  exclude: number[] = []
+) {
+  const free = Array.from({ length: boardSize }, (_, i) => rangeStart + i)
+    .filter((n) => !exclude.includes(n));
+  return pick(free);
+}
+
+/** The number to eliminate; null when only the bot's own numbers are left. */
+export function chooseElimination(
+  difficulty: BotDifficulty,
+  view: BotView
+): number | null {
+  const legal = view.numbers.filter((n) => !view.ownNumbers.includes(n));
+  if (legal.length === 0) return null;
+
+  if (difficulty === "cautious") {
+    // Eliminate the numbers people are least likely to have picked
+    const lowest = Math.min(...legal.map(popularity));
+    return pick(legal.filter((n) => popularity(n) === lowest));
+  }
+
+  if (difficulty === "adversarial") {
+    const avoid = view.avoid ?? [];
+    const prefer = (view.prefer ?? []).filter(
+      (n) => legal.includes(n) && !avoid.includes(n)
+    );
+    if (prefer.length > 0) return pick(prefer);
+    const safe = legal.filter((n) => !avoid.includes(n));
+    if (safe.length > 0) return pick(safe);
+  }
+
+  return pick(legal);
+}
@@ -0,0 +1,74 @@
+export const MAX_MESSAGE_LENGTH = 200;
+export const CHAT_HISTORY_LIMIT = 50;
+export const QUICK_REACTIONS = ["👍", "😂", "😮", "🔥", "😢", "🎉"];
+
+// Deliberately short; the point is to keep casual game nights friendly
+const BLOCKED_WORDS = [
+  "fuck",
+  "shit",
+  "bitch",
+  "cunt",
+  "asshole",
+  "dick",
+  "bastard",
+  "lort",
+  "pis",
+  "pisse",
+  "fisse",
+  "kraftedeme",
+  "luder",
+];
+
+// Whole words plus common endings, so "dickens" is left alone
+const BLOCKED_PATTERN = new RegExp(
+  `\\b(${BLOCKED_WORDS.join("|")})(s|es|e|y|ty|ing|ed|er)?\\b`,
+  "giu"
+);
+
+/** Masks blocked words, keeping their first letter. */
+export function filterProfanity(text: string) {
+  return text.replace(
+    BLOCKED_PATTERN,
+    (word) => word[0] + "*".repeat(word.length - 1)
+  );
+}
+
+/** Trims and filters a chat message; null if nothing is left to send. */
+export function cleanMessage(text: string): string | null {
+  const trimmed = text.trim().slice(0, MAX_MESSAGE_LENGTH);
+  return trimmed ? filterProfanity(trimmed) : null;
+}
+
+/**
+ * Sliding-window rate limit: at most `limit` actions per `windowMs` for each
+ * key, e.g. per sender.
+ */
+export class RateLimiter {
+  private readonly history = new Map<string, number[]>();
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+
+  /** Records an action and reports whether it was within the limit. */
+  allow(key: string, now = Date.now()) {
+    const recent = (this.history.get(key) ?? []).filter(
+      (t) => now - t < this.windowMs
+    );
+    if (recent.length >= this.limit) {
+      this.history.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    this.history.set(key, recent);
+    return true;
+  }
+
+  forget(key: string) {
+    this.history.delete(key);
+  }
+}
+
+export const createMessageLimiter = () => new RateLimiter(5, 10_000);
+export const createReactionLimiter = () => new RateLimiter(8, 5_000);
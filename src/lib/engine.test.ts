@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { Lobby } from "./engine";
+import { CLASSIC_VARIANT } from "./protocol";
+
+// A two-player lobby, already started, where each player has two secrets
+function twoSecretGame(x: number[], y: number[]) {
+  const variant = { ...CLASSIC_VARIANT, secretCount: 2 };
+  const lobby = new Lobby("ABCDE", 10, () => {}, variant);
+  lobby.join("x", "Xena", "token-x");
+  lobby.join("y", "Yann", "token-y");
+  for (const n of x) lobby.selectNumber("x", n);
+  for (const n of y) lobby.selectNumber("y", n);
+  lobby.start("x");
+  return lobby;
+}
+
+describe("a player left with only their own numbers", () => {
+  test("is passed over until the game is decided", () => {
+    const lobby = twoSecretGame([1, 2], [1, 3]);
+    for (const [id, n] of [
+      ["x", 3],
+      ["y", 4],
+      ["x", 5],
+      ["y", 6],
+      ["x", 7],
+      ["y", 8],
+      ["x", 9],
+      ["y", 10],
+    ] as const) {
+      lobby.eliminate(id, n);
+    }
+    // Only 1 and 2 are left and Xena has both, so Yann moves again
+    const stuck = lobby.snapshot();
+    assert.deepEqual(stuck.numbers, [1, 2]);
+    assert.equal(stuck.currentTurn, "y");
+
+    // Now both only have the shared 1 left, which nobody may take
+    lobby.eliminate("y", 2);
+    const over = lobby.snapshot();
+    assert.notEqual(over.gameOver, null);
+    assert.equal(over.currentTurn, null);
+  });
+});
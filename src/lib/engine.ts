@@ -0,0 +1,880 @@
+import {
+  CHAT_HISTORY_LIMIT,
+  cleanMessage,
+  createMessageLimiter,
+  createReactionLimiter,
+  QUICK_REACTIONS,
+} from "./chat";
+import { AVATARS, BOT_AVATAR, PROFILE_COLORS } from "./profile";
+import { CLASSIC_VARIANT, TIE_BREAKS } from "./protocol";
+import { isSeriesOver } from "./series";
+import type {
+  ChatMessage,
+  ErrorCode,
+  GameError,
+  GameOverInfo,
+  GameVariant,
+  JoinLobbyRequest,
+  LobbySettings,
+  LobbySettingsUpdate,
+  LobbySummary,
+  Move,
+  Placement,
+  Player,
+  ServerEvent,
+  ServerToClientEvents,
+  SessionSnapshot,
+  Spectator,
+  TieBreak,
+  TurnTimerSettings,
+} from "./protocol";
+
+export const MIN_NAME_LENGTH = 2;
+export const MAX_PLAYERS = 10;
+export const BOARD_SIZES = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+export const DEFAULT_BOARD_SIZE = 20;
+/** Turn time limits the party leader can choose from, in seconds. */
+export const TURN_TIME_LIMITS = [15, 30, 60, 120];
+/** Series lengths the party leader can choose from; 1 plays single games. */
+export const SERIES_LENGTHS = [1, 3, 5, 7];
+
+export type Recipient = { to: string } | { broadcast: true; except?: string };
+
+export type Send = <E extends ServerEvent>(
+  recipient: Recipient,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+) => void;
+
+/** A rule violation; the message is shown to the player who caused it. */
+export class GameRuleError extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message);
+    this.name = "GameRuleError";
+  }
+
+  toGameError(): GameError {
+    return { code: this.code, message: this.message };
+  }
+}
+
+interface Seat extends Omit<Player, "selectedNumber" | "selectedNumbers"> {
+  /** Secret numbers in the order they were picked. */
+  picks: number[];
+  token: string;
+  readyForReplay: boolean;
+}
+
+export function createBoard(boardSize: number, start = 1): number[] {
+  return Array.from({ length: boardSize }, (_, i) => start + i);
+}
+
+/**
+ * The rules of a single lobby, independent of any transport. Every state
+ * change is reported through `send` using the same events the hosted
+ * backend emits, so the frontend cannot tell the two apart.
+ */
+export class Lobby {
+  private seats: Seat[] = [];
+  // Seats ever taken, for handing out seat ids that are never reused
+  private seatCount = 0;
+  private spectators: Spectator[] = [];
+  private numbers: number[];
+  private gameStarted = false;
+  private currentTurn: string | null = null;
+  private result: GameOverInfo | null = null;
+  private moves: Move[] = [];
+  // The leader is tracked by token so leadership survives a rejoin
+  private leaderToken: string | null = null;
+  private maxPlayers = MAX_PLAYERS;
+  private locked = false;
+  private assistant = true;
+  private seriesLength = 1;
+  private tieBreak: TieBreak = "wins";
+  // Results of the current series so far; starts over once it is complete
+  private series: GameOverInfo[] = [];
+  private readonly kickedTokens = new Set<string>();
+  private chat: ChatMessage[] = [];
+  private chatCount = 0;
+  private readonly messageLimiter = createMessageLimiter();
+  private readonly reactionLimiter = createReactionLimiter();
+  private turnTimer: TurnTimerSettings = { seconds: null, onTimeout: "random" };
+  private turnDeadline: number | null = null;
+  private turnTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    readonly code: string,
+    private boardSize: number,
+    private readonly send: Send,
+    private readonly variant: GameVariant = CLASSIC_VARIANT,
+    private isPublic = false
+  ) {
+    this.numbers = this.createBoard();
+  }
+
+  get isEmpty() {
+    return this.seats.length === 0;
+  }
+
+  /** Whether a quick match may send the player with `token` here. */
+  isOpenTo(token: string) {
+    return (
+      this.isPublic &&
+      !this.gameStarted &&
+      !this.locked &&
+      this.seats.length > 0 &&
+      this.seats.length < this.maxPlayers &&
+      !this.kickedTokens.has(token)
+    );
+  }
+
+  /** The lobby browser entry, or null for lobbies that are not listed. */
+  summary(): LobbySummary | null {
+    const host = this.seats.find((s) => s.token === this.leaderToken);
+    if (!this.isPublic || this.locked || !host) return null;
+    return {
+      code: this.code,
+      hostName: host.name,
+      players: this.seats.length,
+      maxPlayers: this.maxPlayers,
+      boardSize: this.boardSize,
+      variant: this.variant,
+      inProgress: this.gameStarted,
+    };
+  }
+
+  tokenOf(id: string) {
+    return this.seats.find((s) => s.id === id)?.token ?? null;
+  }
+
+  join(
+    id: string,
+    playerName: string,
+    token: string,
+    { avatar, color }: Pick<JoinLobbyRequest, "avatar" | "color"> = {}
+  ) {
+    const name = playerName.trim();
+    const existing = this.seats.find((s) => s.token === token);
+    if (existing) {
+      // Same browser joining again, e.g. from a second tab: take over the seat
+      this.rejoin(id, token);
+      return;
+    }
+    if (this.kickedTokens.has(token)) {
+      throw new GameRuleError("banned", "You were removed from this lobby");
+    }
+    if (name.length < MIN_NAME_LENGTH) {
+      throw new GameRuleError(
+        "name-too-short",
+        `Name must be at least ${MIN_NAME_LENGTH} characters long`
+      );
+    }
+    if (this.gameStarted) {
+      throw new GameRuleError("game-in-progress", "Game already in progress");
+    }
+    if (this.locked) {
+      throw new GameRuleError("lobby-locked", "This lobby is locked");
+    }
+    if (this.seats.length >= this.maxPlayers) {
+      throw new GameRuleError("lobby-full", "Lobby is full");
+    }
+    if (this.seats.some((s) => s.name.toLowerCase() === name.toLowerCase())) {
+      throw new GameRuleError(
+        "name-taken",
+        "Name is already taken in this lobby"
+      );
+    }
+    this.seats.push({
+      id,
+      seatId: `p${++this.seatCount}`,
+      name,
+      avatar:
+        avatar !== undefined && [...AVATARS, BOT_AVATAR].includes(avatar)
+          ? avatar
+          : null,
+      color: this.freeColor(color),
+      token,
+      picks: [],
+      isEliminated: false,
+      placement: null,
+      readyForReplay: false,
+    });
+    this.leaderToken ??= token;
+    this.send({ to: id }, "lobbyJoined", { boardSize: this.boardSize });
+    this.send({ to: id }, "lobbySettings", this.settings());
+    this.send({ to: id }, "chatHistory", this.chat);
+    this.send({ to: id }, "turnTimerChanged", this.turnTimer);
+    this.send({ to: id }, "seriesResults", this.series);
+    this.broadcastPlayers();
+  }
+
+  /** Lets someone follow the lobby read-only; they never get a seat. */
+  watch(id: string, spectatorName: string) {
+    const name = spectatorName.trim();
+    if (name.length < MIN_NAME_LENGTH) {
+      throw new GameRuleError(
+        "name-too-short",
+        `Name must be at least ${MIN_NAME_LENGTH} characters long`
+      );
+    }
+    if (this.seats.some((s) => s.id === id)) {
+      throw new GameRuleError(
+        "already-playing",
+        "You are already playing in this lobby"
+      );
+    }
+    this.spectators = this.spectators.filter((s) => s.id !== id);
+    this.spectators.push({ id, name });
+    this.send({ to: id }, "spectatorJoined", this.snapshot());
+    this.send({ to: id }, "chatHistory", this.chat);
+    this.broadcastSpectators();
+  }
+
+  /** Moves the seat owned by `token` to a new connection id. */
+  rejoin(id: string, token: string) {
+    const seat = this.seats.find((s) => s.token === token);
+    if (!seat) {
+      throw new GameRuleError(
+        "seat-expired",
+        "Your seat in this lobby has expired"
+      );
+    }
+    if (this.currentTurn === seat.id) this.currentTurn = id;
+    seat.id = id;
+    this.send({ to: id }, "sessionRestored", this.snapshot());
+    this.send({ to: id }, "chatHistory", this.chat);
+    // The leader is announced by connection id, which just changed
+    if (seat.token === this.leaderToken) this.broadcastSettings();
+    this.broadcastPlayers();
+  }
+
+  leave(id: string) {
+    this.messageLimiter.forget(id);
+    this.reactionLimiter.forget(id);
+    if (this.spectators.some((s) => s.id === id)) {
+      this.spectators = this.spectators.filter((s) => s.id !== id);
+      this.broadcastSpectators();
+      return;
+    }
+    const index = this.seats.findIndex((s) => s.id === id);
+    if (index === -1) return;
+    const [seat] = this.seats.splice(index, 1);
+    if (seat.token === this.leaderToken) {
+      // Leadership passes to the longest-seated player
+      this.leaderToken = this.seats[0]?.token ?? null;
+      this.broadcastSettings();
+    }
+
+    if (this.gameStarted && !this.result && !seat.isEliminated) {
+      const hadTurn = this.currentTurn === id;
+      if (hadTurn) {
+        // The seat is already gone, so the next one slid into its index
+        this.currentTurn = this.firstToMove([
+          ...this.seats.slice(index),
+          ...this.seats.slice(0, index),
+        ]);
+      }
+      if (!this.finishIfDecided()) {
+        this.broadcastTurn(undefined, hadTurn);
+      }
+    }
+    this.broadcastPlayers();
+    this.resetIfAllReady();
+  }
+
+  selectNumber(id: string, number: number) {
+    const seat = this.requireSeat(id);
+    if (this.gameStarted) {
+      throw new GameRuleError("game-started", "Game already started");
+    }
+    if (this.hasPickedAll(seat)) {
+      throw new GameRuleError(
+        "numbers-complete",
+        this.variant.secretCount > 1
+          ? "You have already chosen your numbers"
+          : "You have already chosen a number"
+      );
+    }
+    if (!this.isOnBoard(number)) {
+      throw new GameRuleError(
+        "number-off-board",
+        "That number is not on the board"
+      );
+    }
+    if (seat.picks.includes(number)) {
+      throw new GameRuleError(
+        "number-already-picked",
+        "You have already picked that number"
+      );
+    }
+    seat.picks.push(number);
+
+    // Identical picks all round would make the game unplayable
+    const everyonePicked =
+      this.seats.length > 1 && this.seats.every((s) => this.hasPickedAll(s));
+    const key = (s: Seat) => [...s.picks].sort((a, b) => a - b).join(",");
+    if (everyonePicked && this.seats.every((s) => key(s) === key(seat))) {
+      for (const s of this.seats) s.picks = [];
+      this.send({ broadcast: true }, "resetNumbers");
+    }
+    this.broadcastPlayers();
+  }
+
+  setTurnTimer(id: string, settings: TurnTimerSettings) {
+    this.requireLeader(id, "change the turn timer");
+    if (this.gameStarted) {
+      throw new GameRuleError("game-started", "Game already started");
+    }
+    const { seconds, onTimeout } = settings;
+    if (seconds !== null && !TURN_TIME_LIMITS.includes(seconds)) {
+      throw new GameRuleError("invalid-settings", "Invalid turn time limit");
+    }
+    if (onTimeout !== "random" && onTimeout !== "skip") {
+      throw new GameRuleError("invalid-settings", "Invalid timeout action");
+    }
+    this.turnTimer = { seconds, onTimeout };
+    this.send({ broadcast: true }, "turnTimerChanged", this.turnTimer);
+  }
+
+  updateSettings(id: string, changes: LobbySettingsUpdate) {
+    this.requireLeader(id, "change the lobby settings");
+    if (this.gameStarted) {
+      throw new GameRuleError("game-started", "Game already started");
+    }
+    const {
+      boardSize,
+      maxPlayers,
+      locked,
+      isPublic,
+      assistant,
+      seriesLength,
+      tieBreak,
+    } = changes;
+    if (boardSize !== undefined && !BOARD_SIZES.includes(boardSize)) {
+      throw new GameRuleError("invalid-settings", "Invalid board size");
+    }
+    if (
+      maxPlayers !== undefined &&
+      (!Number.isInteger(maxPlayers) || maxPlayers < 2 || maxPlayers > MAX_PLAYERS)
+    ) {
+      throw new GameRuleError(
+        "invalid-settings",
+        `Max players must be between 2 and ${MAX_PLAYERS}`
+      );
+    }
+    if (maxPlayers !== undefined && maxPlayers < this.seats.length) {
+      throw new GameRuleError(
+        "invalid-settings",
+        "There are already more players than that"
+      );
+    }
+    if (seriesLength !== undefined && !SERIES_LENGTHS.includes(seriesLength)) {
+      throw new GameRuleError("invalid-settings", "Invalid series length");
+    }
+    if (seriesLength !== undefined && seriesLength <= this.series.length) {
+      throw new GameRuleError(
+        "invalid-settings",
+        "The series has already had that many games"
+      );
+    }
+    if (tieBreak !== undefined && !TIE_BREAKS.includes(tieBreak)) {
+      throw new GameRuleError("invalid-settings", "Invalid tie-break rule");
+    }
+
+    if (maxPlayers !== undefined) this.maxPlayers = maxPlayers;
+    if (locked !== undefined) this.locked = Boolean(locked);
+    if (isPublic !== undefined) this.isPublic = Boolean(isPublic);
+    if (assistant !== undefined) this.assistant = Boolean(assistant);
+    if (seriesLength !== undefined) this.seriesLength = seriesLength;
+    if (tieBreak !== undefined) this.tieBreak = tieBreak;
+    if (boardSize !== undefined && boardSize !== this.boardSize) {
+      this.boardSize = boardSize;
+      this.numbers = this.createBoard();
+      // Picks that fell off the board have to be made again
+      for (const seat of this.seats) {
+        seat.picks = seat.picks.filter((n) => this.isOnBoard(n));
+      }
+      this.broadcastPlayers();
+    }
+    this.broadcastSettings();
+  }
+
+  /** Removes a player for good; their token can't join this lobby again. */
+  kick(id: string, playerId: string) {
+    this.requireLeader(id, "remove players");
+    if (playerId === id) {
+      throw new GameRuleError("cant-kick-self", "You can't remove yourself");
+    }
+    const target = this.seats.find((s) => s.id === playerId);
+    if (!target) {
+      throw new GameRuleError(
+        "player-not-found",
+        "That player is not in this lobby"
+      );
+    }
+    this.kickedTokens.add(target.token);
+    this.send({ to: playerId }, "kicked", "You were removed from the lobby by the host");
+    this.leave(playerId);
+  }
+
+  transferLeadership(id: string, playerId: string) {
+    this.requireLeader(id, "hand over leadership");
+    const target = this.seats.find((s) => s.id === playerId);
+    if (!target) {
+      throw new GameRuleError(
+        "player-not-found",
+        "That player is not in this lobby"
+      );
+    }
+    this.leaderToken = target.token;
+    this.broadcastSettings();
+  }
+
+  start(id: string) {
+    this.requireLeader(id, "start the game");
+    if (this.gameStarted) {
+      throw new GameRuleError("game-started", "Game already started");
+    }
+    if (this.seats.length < 2) {
+      throw new GameRuleError(
+        "not-enough-players",
+        "At least two players are needed to start"
+      );
+    }
+    if (this.seats.some((s) => !this.hasPickedAll(s))) {
+      throw new GameRuleError(
+        "numbers-missing",
+        "Not all players have chosen their numbers"
+      );
+    }
+    this.gameStarted = true;
+    this.numbers = this.createBoard();
+    this.moves = [];
+    this.currentTurn = this.seats[0].id;
+    this.startTurnClock();
+    this.send({ broadcast: true }, "gameStarted", {
+      currentTurn: this.seats[0].id,
+      currentPlayerName: this.seats[0].name,
+      numbers: this.numbers,
+      turnTimeLeft: this.turnTimeLeft(),
+    });
+  }
+
+  eliminate(id: string, number: number) {
+    const player = this.requireSeat(id);
+    if (!this.gameStarted || this.result) {
+      throw new GameRuleError("game-not-running", "The game is not running");
+    }
+    if (this.currentTurn !== id) {
+      throw new GameRuleError("not-your-turn", "It's not your turn");
+    }
+    if (!this.numbers.includes(number)) {
+      throw new GameRuleError(
+        "number-eliminated",
+        "That number has already been eliminated"
+      );
+    }
+    if (player.picks.includes(number)) {
+      throw new GameRuleError(
+        "own-number",
+        "You can't eliminate your own number"
+      );
+    }
+    this.applyElimination(id, number);
+  }
+
+  readyForReplay(id: string) {
+    const seat = this.requireSeat(id);
+    if (!this.result) {
+      throw new GameRuleError("game-not-over", "The game is not over yet");
+    }
+    seat.readyForReplay = true;
+    this.resetIfAllReady();
+  }
+
+  snapshot(): SessionSnapshot {
+    const current = this.seats.find((s) => s.id === this.currentTurn);
+    return {
+      code: this.code,
+      boardSize: this.boardSize,
+      players: this.publicPlayers(),
+      numbers: this.numbers,
+      gameStarted: this.gameStarted,
+      currentTurn: current?.id ?? null,
+      currentPlayerName: current?.name ?? null,
+      gameOver: this.result,
+      spectators: this.spectators,
+      turnTimer: this.turnTimer,
+      turnTimeLeft: this.turnTimeLeft(),
+      moves: this.moves,
+      settings: this.settings(),
+      series: this.series,
+    };
+  }
+
+  /** Stops the turn clock; call when the lobby is thrown away. */
+  dispose() {
+    this.stopTurnClock();
+  }
+
+  /** Players and spectators alike can talk; the text is filtered here. */
+  say(id: string, text: string) {
+    const sender = this.requireParticipant(id);
+    // The payload comes straight off the wire
+    const clean = typeof text === "string" ? cleanMessage(text) : null;
+    if (clean === null) return;
+    if (!this.messageLimiter.allow(id)) {
+      throw new GameRuleError(
+        "rate-limited",
+        "You are sending messages too quickly"
+      );
+    }
+    const message: ChatMessage = {
+      id: String(++this.chatCount),
+      senderId: id,
+      senderSeatId: this.seats.find((s) => s.id === id)?.seatId ?? null,
+      senderName: sender.name,
+      text: clean,
+      sentAt: Date.now(),
+    };
+    this.chat = [...this.chat, message].slice(-CHAT_HISTORY_LIMIT);
+    this.send({ broadcast: true }, "chatMessage", message);
+  }
+
+  react(id: string, emoji: string) {
+    this.requireParticipant(id);
+    if (!QUICK_REACTIONS.includes(emoji)) {
+      throw new GameRuleError(
+        "invalid-request",
+        "That reaction is not available"
+      );
+    }
+    // Reactions are throwaway, so excess ones are dropped without an error
+    if (!this.reactionLimiter.allow(id)) return;
+    this.send({ broadcast: true }, "reaction", { senderId: id, emoji });
+  }
+
+  private requireSeat(id: string) {
+    const seat = this.seats.find((s) => s.id === id);
+    if (!seat) {
+      throw new GameRuleError("not-in-lobby", "You are not in this lobby");
+    }
+    return seat;
+  }
+
+  private createBoard() {
+    return createBoard(this.boardSize, this.variant.rangeStart);
+  }
+
+  private isOnBoard(number: number) {
+    const first = this.variant.rangeStart;
+    return (
+      Number.isInteger(number) &&
+      number >= first &&
+      number < first + this.boardSize
+    );
+  }
+
+  private hasPickedAll(seat: Seat) {
+    return seat.picks.length >= this.variant.secretCount;
+  }
+
+  /** Placement for the next player out; the classic game counts up from 1st. */
+  private nextPlacement() {
+    const out = this.seats.filter((s) => s.isEliminated).length;
+    return this.variant.lastSurvivor === "wins"
+      ? this.seats.length - out
+      : out + 1;
+  }
+
+  // The asked-for colour unless someone has it already, then the first free one
+  private freeColor(wanted: string | undefined) {
+    const taken = this.seats.map((s) => s.color);
+    const free = PROFILE_COLORS.filter((c) => !taken.includes(c));
+    return free.find((c) => c === wanted) ?? free[0] ?? null;
+  }
+
+  private placementOf(seat: Seat): Placement {
+    return {
+      name: seat.name,
+      seatId: seat.seatId,
+      number: seat.picks[0],
+      numbers: seat.picks,
+      placement: seat.placement!,
+    };
+  }
+
+  private requireLeader(id: string, action: string) {
+    const seat = this.requireSeat(id);
+    if (seat.token !== this.leaderToken) {
+      throw new GameRuleError(
+        "not-leader",
+        `Only the party leader can ${action}`
+      );
+    }
+    return seat;
+  }
+
+  private requireParticipant(id: string) {
+    const participant =
+      this.seats.find((s) => s.id === id) ??
+      this.spectators.find((s) => s.id === id);
+    if (!participant) {
+      throw new GameRuleError("not-in-lobby", "You are not in this lobby");
+    }
+    return participant;
+  }
+
+  private applyElimination(id: string, number: number, timedOut = false) {
+    const mover = this.requireSeat(id);
+    // Neighbours never take out the mover's own numbers
+    const cleared = this.variant.neighbours
+      ? [number - 1, number, number + 1].filter(
+          (n) =>
+            this.numbers.includes(n) && (n === number || !mover.picks.includes(n))
+        )
+      : [number];
+    this.numbers = this.numbers.filter((n) => !cleared.includes(n));
+    const hit = this.seats.filter(
+      (s) => !s.isEliminated && s.picks.every((n) => !this.numbers.includes(n))
+    );
+    const totalPlayers = this.seats.length;
+    for (const seat of hit) {
+      seat.placement = this.nextPlacement();
+      seat.isEliminated = true;
+    }
+    this.recordMove({
+      playerName: mover.name,
+      seatId: mover.seatId,
+      number,
+      cleared,
+      timedOut,
+      knockedOut: hit.map((s) => this.placementOf(s)),
+    });
+
+    this.currentTurn = this.nextTurnAfter(id);
+    this.broadcastTurn(number);
+
+    // Going out is good news in the classic game and bad news otherwise
+    const outcome = this.variant.lastSurvivor === "wins" ? "youLost" : "youWon";
+    for (const seat of hit) {
+      const info = {
+        number: seat.picks.find((n) => cleared.includes(n)) ?? number,
+        placement: seat.placement!,
+        totalPlayers,
+      };
+      this.send({ to: seat.id }, outcome, info);
+      this.send({ broadcast: true, except: seat.id }, "playerEliminated", {
+        ...info,
+        playerName: seat.name,
+      });
+    }
+    this.finishIfDecided();
+    this.broadcastPlayers();
+  }
+
+  private startTurnClock() {
+    this.stopTurnClock();
+    if (this.turnTimer.seconds === null || !this.currentTurn) return;
+    const limit = this.turnTimer.seconds * 1000;
+    this.turnDeadline = Date.now() + limit;
+    this.turnTimeout = setTimeout(() => this.timeOutTurn(), limit);
+  }
+
+  private stopTurnClock() {
+    if (this.turnTimeout) clearTimeout(this.turnTimeout);
+    this.turnTimeout = null;
+    this.turnDeadline = null;
+  }
+
+  private turnTimeLeft() {
+    return this.turnDeadline === null
+      ? null
+      : Math.max(0, this.turnDeadline - Date.now());
+  }
+
+  /** Plays a random number for the stalling player, or passes their turn. */
+  private timeOutTurn() {
+    this.turnTimeout = null;
+    const seat = this.seats.find((s) => s.id === this.currentTurn);
+    if (!seat || !this.gameStarted || this.result) return;
+    const choices = this.numbers.filter((n) => !seat.picks.includes(n));
+
+    if (this.turnTimer.onTimeout === "random" && choices.length > 0) {
+      const number = choices[Math.floor(Math.random() * choices.length)];
+      this.send({ broadcast: true }, "turnTimedOut", {
+        playerName: seat.name,
+        action: "random",
+        number,
+      });
+      this.applyElimination(seat.id, number, true);
+      return;
+    }
+    this.send({ broadcast: true }, "turnTimedOut", {
+      playerName: seat.name,
+      action: "skip",
+      number: null,
+    });
+    this.recordMove({
+      playerName: seat.name,
+      seatId: seat.seatId,
+      number: null,
+      cleared: [],
+      timedOut: true,
+      knockedOut: [],
+    });
+    this.currentTurn = this.nextTurnAfter(seat.id);
+    this.broadcastTurn();
+  }
+
+  private recordMove(move: Omit<Move, "turn">) {
+    const recorded = { turn: this.moves.length + 1, ...move };
+    this.moves = [...this.moves, recorded];
+    this.send({ broadcast: true }, "moveRecorded", recorded);
+  }
+
+  private nextTurnAfter(id: string) {
+    const start = this.seats.findIndex((s) => s.id === id) + 1;
+    return this.firstToMove([
+      ...this.seats.slice(start),
+      ...this.seats.slice(0, start),
+    ]);
+  }
+
+  // The first survivor in `order` with a number they may eliminate. Someone
+  // left with only their own numbers sits out; when nobody can move, the game
+  // is decided and any survivor will do.
+  private firstToMove(order: Seat[]) {
+    const alive = order.filter((s) => !s.isEliminated);
+    const mover = alive.find((s) =>
+      this.numbers.some((n) => !s.picks.includes(n))
+    );
+    return (mover ?? alive[0])?.id ?? null;
+  }
+
+  // Without a number (a player left or timed out) only the turn moves on.
+  // The clock keeps running when someone else's leaving didn't change the turn.
+  private broadcastTurn(number?: number, restartClock = true) {
+    const current = this.seats.find((s) => s.id === this.currentTurn);
+    if (restartClock) this.startTurnClock();
+    this.send({ broadcast: true }, "numberEliminated", {
+      number: number ?? 0,
+      remainingNumbers: this.numbers,
+      currentTurn: current?.id ?? "",
+      currentPlayerName: current?.name ?? "",
+      turnTimeLeft: this.turnTimeLeft(),
+    });
+  }
+
+  /**
+   * Ends the game once at most one player is left, or when nobody left can
+   * be knocked out any more: every remaining secret number is shared by all
+   * survivors, and nobody may eliminate their own. The survivors share the
+   * last place, or the first when the variant lets the last survivor win.
+   * A survivor left with only their own numbers is skipped, not waited for.
+   */
+  private finishIfDecided() {
+    if (!this.gameStarted || this.result) return false;
+    const alive = this.seats.filter((s) => !s.isEliminated);
+    const stuck = alive.every((s) =>
+      s.picks
+        .filter((n) => this.numbers.includes(n))
+        .every((n) => alive.every((other) => other.picks.includes(n)))
+    );
+    if (alive.length > 1 && !stuck) return false;
+
+    const totalPlayers = this.seats.length;
+    const survivorsWin = this.variant.lastSurvivor === "wins";
+    const placement = survivorsWin ? 1 : totalPlayers;
+    for (const survivor of alive) {
+      survivor.isEliminated = true;
+      survivor.placement = placement;
+      this.send({ to: survivor.id }, survivorsWin ? "youWon" : "youLost", {
+        placement,
+        totalPlayers,
+        number: survivor.picks[0],
+      });
+    }
+    this.currentTurn = null;
+    this.stopTurnClock();
+    this.result = {
+      placements: this.seats
+        .map((s) => this.placementOf(s))
+        .sort((a, b) => a.placement - b.placement),
+    };
+    if (this.seriesLength > 1) {
+      this.series = [...this.series, this.result];
+      this.send({ broadcast: true }, "seriesResults", this.series);
+    }
+    this.send({ broadcast: true }, "gameOver", this.result);
+    return true;
+  }
+
+  private resetIfAllReady() {
+    if (!this.result || this.seats.length === 0) return;
+    if (!this.seats.every((s) => s.readyForReplay)) return;
+
+    for (const seat of this.seats) {
+      seat.picks = [];
+      seat.isEliminated = false;
+      seat.placement = null;
+      seat.readyForReplay = false;
+    }
+    this.gameStarted = false;
+    this.currentTurn = null;
+    this.result = null;
+    this.moves = [];
+    this.numbers = this.createBoard();
+    // The rematch after the last game of a series opens the next series
+    if (isSeriesOver(this.series, this.seriesLength)) {
+      this.series = [];
+      this.send({ broadcast: true }, "seriesResults", this.series);
+    }
+    this.send({ broadcast: true }, "lobbyReset", {
+      players: this.publicPlayers(),
+      numbers: this.numbers,
+      boardSize: this.boardSize,
+    });
+  }
+
+  private publicPlayers(): Player[] {
+    return this.seats.map((s) => ({
+      id: s.id,
+      seatId: s.seatId,
+      name: s.name,
+      avatar: s.avatar,
+      color: s.color,
+      selectedNumber: s.picks[0] ?? null,
+      selectedNumbers: s.picks,
+      isEliminated: s.isEliminated,
+      placement: s.placement,
+    }));
+  }
+
+  private settings(): LobbySettings {
+    return {
+      leaderId:
+        this.seats.find((s) => s.token === this.leaderToken)?.id ?? null,
+      boardSize: this.boardSize,
+      maxPlayers: this.maxPlayers,
+      variant: this.variant,
+      locked: this.locked,
+      isPublic: this.isPublic,
+      assistant: this.assistant,
+      seriesLength: this.seriesLength,
+      tieBreak: this.tieBreak,
+    };
+  }
+
+  private broadcastSettings() {
+    this.send({ broadcast: true }, "lobbySettings", this.settings());
+  }
+
+  private broadcastSpectators() {
+    this.send({ broadcast: true }, "spectatorList", this.spectators);
+  }
+
+  private broadcastPlayers() {
+    this.send({ broadcast: true }, "playerList", this.publicPlayers());
+  }
+}
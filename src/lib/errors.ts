@@ -0,0 +1,99 @@
+import { MIN_NAME_LENGTH } from "./engine";
+import type { Translator } from "./i18n";
+import { LOBBY_CODE_LENGTH } from "./invite";
+import type { ErrorCode } from "./protocol";
+
+/** A form field an error can be shown under. */
+export type ErrorField = "name" | "code";
+
+/**
+ * Where the UI shows an error: under a form field, as a hint next to the
+ * numbers the player is clicking, as a toast, or not at all.
+ */
+export type ErrorDisplay =
+  | { kind: "field"; field: ErrorField }
+  | { kind: "board" }
+  | { kind: "toast" }
+  | { kind: "silent" };
+
+const NAME_FIELD: ErrorDisplay = { kind: "field", field: "name" };
+const CODE_FIELD: ErrorDisplay = { kind: "field", field: "code" };
+const BOARD: ErrorDisplay = { kind: "board" };
+const TOAST: ErrorDisplay = { kind: "toast" };
+const SILENT: ErrorDisplay = { kind: "silent" };
+
+const ERROR_DISPLAYS: Record<ErrorCode, ErrorDisplay> = {
+  "lobby-not-found": CODE_FIELD,
+  "invalid-lobby-code": CODE_FIELD,
+  "lobby-full": CODE_FIELD,
+  "lobby-locked": CODE_FIELD,
+  banned: CODE_FIELD,
+  "game-in-progress": CODE_FIELD,
+  "name-too-short": NAME_FIELD,
+  "name-taken": NAME_FIELD,
+  "already-playing": TOAST,
+  "seat-expired": TOAST,
+  "not-in-lobby": TOAST,
+  "not-leader": TOAST,
+  "player-not-found": TOAST,
+  "cant-kick-self": TOAST,
+  "invalid-settings": TOAST,
+  "game-started": TOAST,
+  // Echoes of a double click on a number; the first click already counted
+  "numbers-complete": SILENT,
+  "number-already-picked": SILENT,
+  "number-off-board": BOARD,
+  "duplicate-number": BOARD,
+  "not-enough-players": TOAST,
+  "numbers-missing": TOAST,
+  "game-not-running": BOARD,
+  "not-your-turn": BOARD,
+  "number-eliminated": BOARD,
+  "own-number": BOARD,
+  "game-not-over": TOAST,
+  "rate-limited": TOAST,
+  "invalid-request": TOAST,
+  unknown: TOAST,
+};
+
+/** How to show an error; notices without a code are toasts. */
+export function errorDisplay(code: ErrorCode | undefined): ErrorDisplay {
+  return code ? ERROR_DISPLAYS[code] : TOAST;
+}
+
+type ErrorNotice = { code?: ErrorCode; message: string };
+
+/**
+ * An error in the player's language. Coded errors come from the catalogue;
+ * unknown ones can only be shown as the server worded them.
+ */
+export function errorText(notice: ErrorNotice, { t }: Translator): string {
+  if (!notice.code || notice.code === "unknown") return notice.message;
+  return t(`error.${notice.code}`, {
+    min: MIN_NAME_LENGTH,
+    length: LOBBY_CODE_LENGTH,
+  });
+}
+
+/** The message to show under `field`, if the notice belongs there. */
+export function fieldError(
+  notice: ErrorNotice | null,
+  field: ErrorField,
+  i18n: Translator
+): string | null {
+  if (!notice) return null;
+  const display = errorDisplay(notice.code);
+  return display.kind === "field" && display.field === field
+    ? errorText(notice, i18n)
+    : null;
+}
+
+/** The hint to show next to the numbers, if the notice belongs there. */
+export function boardHint(
+  notice: ErrorNotice | null,
+  i18n: Translator
+): string | null {
+  return notice && errorDisplay(notice.code).kind === "board"
+    ? errorText(notice, i18n)
+    : null;
+}
@@ -0,0 +1,49 @@
+import type { Locale, Translator } from "./i18n";
+import type { Move } from "./protocol";
+
+const ENGLISH_SUFFIXES: Record<string, string> = {
+  one: "st",
+  two: "nd",
+  few: "rd",
+  other: "th",
+};
+
+/** A placement as an ordinal, e.g. "2nd" in English and "2." in Danish. */
+export const getPlacementText = (placement: number, locale: Locale) => {
+  if (locale === "da") return `${placement}.`;
+  const rule = new Intl.PluralRules("en", { type: "ordinal" }).select(
+    placement
+  );
+  return `${placement}${ENGLISH_SUFFIXES[rule]}`;
+};
+
+/** A probability as a whole percentage, e.g. "37%" or "37 %". */
+export const formatChance = (chance: number, locale: Locale) =>
+  new Intl.NumberFormat(locale, {
+    style: "percent",
+    maximumFractionDigits: 0,
+  }).format(chance);
+
+/** One line of the move log, e.g. "Alice eliminated 7". */
+export const describeMove = (move: Move, { locale, t }: Translator) => {
+  const name = move.playerName;
+  const action =
+    move.number === null
+      ? t("move.skipped", { name })
+      : move.timedOut
+      ? t("move.random", { name, number: move.number })
+      : t("move.eliminated", { name, number: move.number });
+  // Neighbour rules take out more than the number that was picked
+  const alsoCleared = move.cleared.filter((n) => n !== move.number);
+  const neighbours =
+    alsoCleared.length > 0
+      ? t("move.neighbours", { numbers: alsoCleared.join(t("move.and")) })
+      : "";
+  const knockouts = move.knockedOut.map((p) =>
+    t("move.knockout", {
+      name: p.name,
+      place: getPlacementText(p.placement, locale),
+    })
+  );
+  return [action + neighbours, ...knockouts].join(". ");
+};
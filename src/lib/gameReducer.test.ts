@@ -0,0 +1,250 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  gameReducer,
+  GameAction,
+  GameState,
+  initialGameState,
+  isMessageMuted,
+  ServerAction,
+} from "./gameReducer";
+import type { Player, ServerEvent, ServerToClientEvents } from "./protocol";
+
+const server = <E extends ServerEvent>(
+  event: E,
+  payload: Parameters<ServerToClientEvents[E]>[0]
+) => ({ type: "server", event, payload }) as ServerAction;
+
+const run = (state: GameState, ...actions: GameAction[]) =>
+  actions.reduce(gameReducer, state);
+
+const player = (id: string, name: string, picks: number[] = []): Player => ({
+  id,
+  seatId: `seat-${name}`,
+  name,
+  avatar: null,
+  color: null,
+  selectedNumber: picks[0] ?? null,
+  selectedNumbers: picks,
+  isEliminated: false,
+  placement: null,
+});
+
+// Connected as "me" with a name typed in, ready to create or join
+const ready = run(
+  initialGameState,
+  { type: "connected", id: "me" },
+  { type: "nameChanged", name: "Alice" }
+);
+
+// Alice created a lobby and Bob joined it
+const inLobby = run(
+  ready,
+  { type: "createRequested" },
+  server("lobbyCreated", "ABCDE"),
+  server("lobbyJoined", { boardSize: 10 }),
+  server("playerList", [player("me", "Alice"), player("bob", "Bob")])
+);
+
+const playing = run(
+  inLobby,
+  server("playerList", [
+    player("me", "Alice", [3]),
+    player("bob", "Bob", [7]),
+  ]),
+  server("gameStarted", {
+    currentTurn: "me",
+    currentPlayerName: "Alice",
+    numbers: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+    turnTimeLeft: null,
+  })
+);
+
+describe("a game from creating the lobby to the end", () => {
+  test("creating waits for the server, then joins the new lobby", () => {
+    const creating = gameReducer(ready, { type: "createRequested" });
+    assert.equal(creating.phase, "creating");
+    const joining = gameReducer(creating, server("lobbyCreated", "ABCDE"));
+    assert.equal(joining.phase, "joining");
+    assert.equal(joining.lobbyCode, "ABCDE");
+  });
+
+  test("joining shows the picker with a board of the lobby's size", () => {
+    assert.equal(inLobby.phase, "picking");
+    assert.equal(inLobby.boardSize, 10);
+    assert.deepEqual(inLobby.numbers, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    assert.equal(inLobby.players.length, 2);
+  });
+
+  test("picking a number moves on to waiting", () => {
+    const picked = gameReducer(
+      inLobby,
+      server("playerList", [player("me", "Alice", [3]), player("bob", "Bob")])
+    );
+    assert.equal(picked.phase, "waiting");
+  });
+
+  test("the game starts on the first player's turn", () => {
+    assert.equal(playing.phase, "playing");
+    assert.equal(playing.currentTurn, "me");
+    assert.equal(playing.turnCount, inLobby.turnCount + 1);
+  });
+
+  test("an elimination passes the turn and shrinks the board", () => {
+    const next = gameReducer(
+      playing,
+      server("numberEliminated", {
+        number: 5,
+        remainingNumbers: [1, 2, 3, 4, 6, 7, 8, 9, 10],
+        currentTurn: "bob",
+        currentPlayerName: "Bob",
+        turnTimeLeft: null,
+      })
+    );
+    assert.equal(next.currentTurn, "bob");
+    assert.ok(!next.numbers.includes(5));
+  });
+
+  test("the game ends with the placements", () => {
+    const placements = [
+      { name: "Bob", seatId: "seat-Bob", number: 7, numbers: [7], placement: 1 },
+      {
+        name: "Alice",
+        seatId: "seat-Alice",
+        number: 3,
+        numbers: [3],
+        placement: 2,
+      },
+    ];
+    const over = run(
+      playing,
+      server("youLost", { placement: 2, totalPlayers: 2, number: 3 }),
+      server("gameOver", { placements })
+    );
+    assert.equal(over.phase, "gameOver");
+    assert.equal(over.result, "lost");
+    assert.deepEqual(over.gameOverInfo?.placements, placements);
+  });
+});
+
+describe("game ids for the stats", () => {
+  test("every game starts without one, even a rematch", () => {
+    const counted = gameReducer(playing, { type: "gameIdAssigned", id: "g1" });
+    assert.equal(counted.gameId, "g1");
+    const rematch = gameReducer(
+      counted,
+      server("gameStarted", {
+        currentTurn: "me",
+        currentPlayerName: "Alice",
+        numbers: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+        turnTimeLeft: null,
+      })
+    );
+    assert.equal(rematch.gameId, null);
+  });
+});
+
+describe("rejoining", () => {
+  test("a restored session puts the player back into the running game", () => {
+    const reconnecting = gameReducer(initialGameState, {
+      type: "rejoinStarted",
+      playerName: "Alice",
+    });
+    assert.equal(reconnecting.phase, "reconnecting");
+    const restored = run(
+      reconnecting,
+      { type: "connected", id: "me-again" },
+      server("sessionRestored", {
+        code: "ABCDE",
+        boardSize: 10,
+        players: [
+          player("me-again", "Alice", [3]),
+          player("bob", "Bob", [7]),
+        ],
+        numbers: [1, 2, 3, 4, 6, 7, 8, 9, 10],
+        gameStarted: true,
+        currentTurn: "bob",
+        currentPlayerName: "Bob",
+        gameOver: null,
+        spectators: [],
+        turnTimer: { seconds: null, onTimeout: "random" },
+        turnTimeLeft: null,
+        moves: [],
+        settings: null,
+        series: [],
+      })
+    );
+    assert.equal(restored.phase, "playing");
+    assert.equal(restored.reconnecting, false);
+    assert.equal(restored.lobbyCode, "ABCDE");
+    assert.equal(restored.myId, "me-again");
+  });
+
+  test("a failed rejoin goes back to the menu", () => {
+    const failed = run(
+      initialGameState,
+      { type: "rejoinStarted", playerName: "Alice" },
+      server("rejoinFailed", "Lobby no longer exists")
+    );
+    assert.equal(failed.phase, "menu");
+    assert.equal(failed.reconnecting, false);
+  });
+});
+
+describe("being kicked", () => {
+  test("leaves the lobby and says why", () => {
+    const kicked = gameReducer(playing, server("kicked", "Removed by host"));
+    assert.equal(kicked.phase, "menu");
+    assert.equal(kicked.lobbyCode, null);
+    assert.deepEqual(kicked.players, []);
+    assert.equal(kicked.error?.code, "banned");
+    assert.equal(kicked.myId, "me");
+  });
+
+  test("keeps the player's name and profile for the next lobby", () => {
+    const dressed = run(
+      playing,
+      { type: "avatarChanged", avatar: "🦊" },
+      { type: "colorChanged", color: "teal" }
+    );
+    const kicked = gameReducer(dressed, server("kicked", "Removed by host"));
+    assert.equal(kicked.playerName, "Alice");
+    assert.equal(kicked.avatar, "🦊");
+    assert.equal(kicked.color, "teal");
+  });
+});
+
+describe("muting", () => {
+  test("outlasts the muted player's reconnect", () => {
+    const muted = gameReducer(inLobby, {
+      type: "muteToggled",
+      id: "seat-Bob",
+    });
+    const reconnected = gameReducer(
+      muted,
+      server("playerList", [player("me", "Alice"), player("bob-2", "Bob")])
+    );
+    const after = gameReducer(
+      reconnected,
+      server("reaction", { senderId: "bob-2", emoji: "👋" })
+    );
+    assert.deepEqual(after.reactions, []);
+  });
+
+  test("hides what the muted player said before reconnecting", () => {
+    const said = run(
+      inLobby,
+      server("chatMessage", {
+        id: "1",
+        senderId: "bob",
+        senderSeatId: "seat-Bob",
+        senderName: "Bob",
+        text: "hi",
+        sentAt: 0,
+      }),
+      { type: "muteToggled", id: "seat-Bob" },
+      server("playerList", [player("me", "Alice"), player("bob-2", "Bob")])
+    );
+    assert.ok(isMessageMuted(said, said.chat[0]));
+  });
+});
@@ -0,0 +1,825 @@
+import { CHAT_HISTORY_LIMIT } from "./chat";
+import { createBoard, DEFAULT_BOARD_SIZE, MAX_PLAYERS } from "./engine";
+import { errorDisplay } from "./errors";
+import { defaultProfile } from "./profile";
+import type { Profile, ProfileColor } from "./profile";
+import { CLASSIC_VARIANT, SERVER_EVENTS } from "./protocol";
+import type {
+  ChatMessage,
+  ErrorCode,
+  GameOverInfo,
+  GameRecord,
+  GameVariant,
+  LobbySettings,
+  LobbySummary,
+  Move,
+  Player,
+  PlayerElimination,
+  ServerEvent,
+  ServerToClientEvents,
+  SessionSnapshot,
+  Spectator,
+  TieBreak,
+  TurnTimedOutPayload,
+  TurnTimerSettings,
+} from "./protocol";
+import type { ServerProbe } from "./servers";
+import type { Settings } from "./settings";
+import { hasPickedAll } from "./variants";
+
+/** Which form the main menu shows. */
+export type MenuStep =
+  | "menu"
+  | "create"
+  | "join"
+  | "watch"
+  | "bots"
+  | "hotseat"
+  | "browse";
+
+/**
+ * Where the player is in the flow. `picking` and `waiting` are both the
+ * lobby screen, before and after the player has chosen their number.
+ */
+export type Phase =
+  | "menu"
+  | "creating"
+  | "matching"
+  | "joining"
+  | "reconnecting"
+  | "picking"
+  | "waiting"
+  | "playing"
+  | "gameOver"
+  | "replay";
+
+export interface Notice {
+  message: string;
+  /** Transient notices are dismissed automatically after a few seconds. */
+  transient: boolean;
+  /** Decides where the notice is shown; see errors.ts. */
+  code?: ErrorCode;
+}
+
+export type ConnectionStatus =
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "failed";
+
+/** How the connection to the backend is doing, for the status indicator. */
+export interface ConnectionState {
+  status: ConnectionStatus;
+  /** Last measured round trip in milliseconds; null if unknown. */
+  latency: number | null;
+  /** The server in use; null until one is picked or if none is needed. */
+  serverUrl: string | null;
+  /** Failed attempts to connect since the last success. */
+  failures: number;
+  /** Bumped to drop the transport and connect from scratch. */
+  attempt: number;
+}
+
+// Failed attempts in a row before the indicator stops saying "connecting"
+const CONNECT_ATTEMPTS_BEFORE_FAILED = 3;
+
+/** A quick reaction floating over its sender until it expires. */
+export interface FloatingReaction {
+  key: number;
+  senderId: string;
+  emoji: string;
+}
+
+export interface GameState {
+  phase: Phase;
+  menuStep: MenuStep;
+  mode: "online" | "bots" | "hotseat";
+  /** Spectators follow a lobby read-only and never get a seat. */
+  role: "player" | "spectator";
+  myId: string | null;
+  playerName: string;
+  /** The rest of the player's profile, sent along when joining. */
+  avatar: string;
+  color: ProfileColor;
+  lobbyCode: string | null;
+  /** Lobby code from an invite link, pre-filled in the join form. */
+  inviteCode: string | null;
+  boardSize: number;
+  variant: GameVariant;
+  /** Null until the server names a leader; older servers never do. */
+  leaderId: string | null;
+  maxPlayers: number;
+  locked: boolean;
+  isPublic: boolean;
+  /** The host allows the risk assistant in this lobby. */
+  assistant: boolean;
+  /** Games in the lobby's series; 1 when games are played one at a time. */
+  seriesLength: number;
+  tieBreak: TieBreak;
+  /** Results of the games played so far in the current series. */
+  series: GameOverInfo[];
+  players: Player[];
+  spectators: Spectator[];
+  numbers: number[];
+  currentTurn: string | null;
+  currentPlayerName: string | null;
+  result: "won" | "lost" | null;
+  gameOverInfo: GameOverInfo | null;
+  moves: Move[];
+  /** Tells this game apart in the stats; handed out once it is seen running. */
+  gameId: string | null;
+  /** An imported game being reviewed from the main menu. */
+  replay: GameRecord | null;
+  elimination: PlayerElimination | null;
+  /** Shown in the elimination banner's place when a turn ran out of time. */
+  timeout: TurnTimedOutPayload | null;
+  turnTimer: TurnTimerSettings;
+  /** Milliseconds left when the current turn was announced. */
+  turnTimeLeft: number | null;
+  /** Bumped whenever a turn (re)starts, so countdowns know to reset. */
+  turnCount: number;
+  error: Notice | null;
+  reconnecting: boolean;
+  chat: ChatMessage[];
+  reactions: FloatingReaction[];
+  /** Last key handed out to a floating reaction. */
+  reactionKey: number;
+  /** Mute keys (see `muteKey`) whose messages and reactions are hidden. */
+  mutedIds: string[];
+  /** Open public lobbies; null until the browser has loaded them. */
+  publicLobbies: LobbySummary[] | null;
+  /** Pass-and-play: the player the device should go to next, behind a cover. */
+  handoff: { id: string; name: string } | null;
+  connection: ConnectionState;
+  /** Servers the player can choose from; empty when there is only one. */
+  servers: ServerProbe[];
+  /** Server picked by hand in the settings; null connects to the fastest. */
+  serverChoice: string | null;
+  /** A create or join request has gone unanswered for a while. */
+  requestStalled: boolean;
+}
+
+/** A server event as dispatched by the transport, one member per event. */
+export type ServerAction = {
+  [E in ServerEvent]: {
+    type: "server";
+    event: E;
+    payload: Parameters<ServerToClientEvents[E]>[0];
+  };
+}[ServerEvent];
+
+export type IntentAction =
+  | { type: "connected"; id: string }
+  | { type: "disconnected" }
+  | { type: "connectFailed" }
+  | { type: "latencyMeasured"; latency: number | null }
+  | { type: "serversProbed"; servers: ServerProbe[] }
+  | { type: "serverSelected"; url: string }
+  | { type: "serverChosen"; url: string | null }
+  | { type: "reconnectRequested" }
+  | { type: "settingsLoaded"; settings: Settings }
+  | { type: "requestTimedOut" }
+  | { type: "requestRetried" }
+  | { type: "rejoinStarted"; playerName: string }
+  | { type: "menuStepChanged"; step: MenuStep }
+  | { type: "profileLoaded"; profile: Profile }
+  | { type: "nameChanged"; name: string }
+  | { type: "avatarChanged"; avatar: string }
+  | { type: "colorChanged"; color: ProfileColor }
+  | { type: "createRequested" }
+  | { type: "quickMatchRequested" }
+  | { type: "joinRequested"; code: string }
+  | { type: "watchRequested"; code: string }
+  | { type: "botGameStarted"; id: string }
+  | { type: "hotSeatStarted" }
+  | { type: "handoffAccepted" }
+  | { type: "numberPicked" }
+  | { type: "leftLobby"; connectionId: string | null }
+  | {
+      type: "errorRaised";
+      message: string;
+      transient?: boolean;
+      code?: ErrorCode;
+    }
+  | { type: "errorDismissed" }
+  | { type: "eliminationDismissed" }
+  | { type: "timeoutDismissed" }
+  | { type: "replayOpened"; record: GameRecord }
+  | { type: "replayClosed" }
+  | { type: "reactionExpired"; key: number }
+  | { type: "muteToggled"; id: string }
+  | { type: "gameIdAssigned"; id: string };
+
+export type GameAction = ServerAction | IntentAction;
+
+/** Listeners for every server event that turn it into a ServerAction. */
+export function toServerHandlers(
+  dispatch: (action: ServerAction) => void
+): ServerToClientEvents {
+  const handlers: Partial<Record<ServerEvent, (payload?: unknown) => void>> =
+    {};
+  for (const event of SERVER_EVENTS) {
+    handlers[event] = (payload) =>
+      dispatch({ type: "server", event, payload } as ServerAction);
+  }
+  return handlers as ServerToClientEvents;
+}
+
+export const initialGameState: GameState = {
+  phase: "menu",
+  menuStep: "menu",
+  mode: "online",
+  role: "player",
+  myId: null,
+  playerName: "",
+  avatar: defaultProfile.avatar,
+  color: defaultProfile.color,
+  lobbyCode: null,
+  inviteCode: null,
+  boardSize: DEFAULT_BOARD_SIZE,
+  variant: CLASSIC_VARIANT,
+  leaderId: null,
+  maxPlayers: MAX_PLAYERS,
+  locked: false,
+  isPublic: false,
+  assistant: true,
+  seriesLength: 1,
+  tieBreak: "wins",
+  series: [],
+  players: [],
+  spectators: [],
+  numbers: createBoard(DEFAULT_BOARD_SIZE),
+  currentTurn: null,
+  currentPlayerName: null,
+  result: null,
+  gameOverInfo: null,
+  moves: [],
+  gameId: null,
+  replay: null,
+  elimination: null,
+  timeout: null,
+  turnTimer: { seconds: null, onTimeout: "random" },
+  turnTimeLeft: null,
+  turnCount: 0,
+  error: null,
+  reconnecting: false,
+  chat: [],
+  reactions: [],
+  reactionKey: 0,
+  mutedIds: [],
+  publicLobbies: null,
+  handoff: null,
+  connection: {
+    status: "connecting",
+    latency: null,
+    serverUrl: null,
+    failures: 0,
+    attempt: 0,
+  },
+  servers: [],
+  serverChoice: null,
+  requestStalled: false,
+};
+
+/** Initial state for a page opened from an invite link to `inviteCode`. */
+export function initGameState(inviteCode: string | null): GameState {
+  if (!inviteCode) return initialGameState;
+  return { ...initialGameState, menuStep: "join", inviteCode };
+}
+
+export function findMe(state: GameState) {
+  return state.players.find((p) => p.id === state.myId);
+}
+
+/** My seat id, which unlike my connection id also matches results and moves. */
+export function mySeatId(state: GameState) {
+  return findMe(state)?.seatId ?? null;
+}
+
+/**
+ * What a mute is kept under: a player's seat id, so it outlasts their
+ * reconnects, or a spectator's connection id.
+ */
+export function muteKey(state: GameState, senderId: string) {
+  return state.players.find((p) => p.id === senderId)?.seatId ?? senderId;
+}
+
+export function isMuted(state: GameState, senderId: string) {
+  return state.mutedIds.includes(muteKey(state, senderId));
+}
+
+/** Older messages keep their sender's seat, though not their connection id. */
+export function isMessageMuted(state: GameState, message: ChatMessage) {
+  return message.senderSeatId !== null
+    ? state.mutedIds.includes(message.senderSeatId)
+    : isMuted(state, message.senderId);
+}
+
+/** The party leader runs the lobby; without a named one it is the first player. */
+export function isLeader(state: GameState) {
+  const leaderId = state.leaderId ?? state.players[0]?.id;
+  return state.myId !== null && leaderId === state.myId;
+}
+
+export function isMyTurn(state: GameState) {
+  return state.phase === "playing" && state.myId === state.currentTurn;
+}
+
+/** Whether a create, join or quick match request is waiting for its answer. */
+export function isAwaitingServer(phase: Phase) {
+  return phase === "creating" || phase === "matching" || phase === "joining";
+}
+
+// The lobby screen shows the picker until all our numbers are in the player list
+function lobbyPhase(state: GameState): Phase {
+  if (state.role === "spectator") return "waiting";
+  const me = findMe(state);
+  return me && hasPickedAll(me, state.variant) ? "waiting" : "picking";
+}
+
+function inLobby(phase: Phase) {
+  return phase === "picking" || phase === "waiting";
+}
+
+function applySettings(state: GameState, settings: LobbySettings): GameState {
+  const resized =
+    settings.boardSize !== state.boardSize ||
+    settings.variant.rangeStart !== state.variant.rangeStart;
+  const next: GameState = {
+    ...state,
+    leaderId: settings.leaderId,
+    maxPlayers: settings.maxPlayers,
+    locked: settings.locked,
+    isPublic: settings.isPublic,
+    assistant: settings.assistant,
+    seriesLength: settings.seriesLength,
+    tieBreak: settings.tieBreak,
+    boardSize: settings.boardSize,
+    variant: settings.variant,
+    numbers: resized
+      ? createBoard(settings.boardSize, settings.variant.rangeStart)
+      : state.numbers,
+  };
+  return inLobby(next.phase) ? { ...next, phase: lobbyPhase(next) } : next;
+}
+
+// Whether `snapshot` carries on the game in `state`, rather than one that
+// started while we were away
+function sameGame(state: GameState, snapshot: SessionSnapshot) {
+  return (
+    state.lobbyCode === snapshot.code &&
+    state.moves.every(
+      (m, i) =>
+        snapshot.moves[i]?.seatId === m.seatId &&
+        snapshot.moves[i]?.number === m.number
+    )
+  );
+}
+
+function restore(state: GameState, snapshot: SessionSnapshot): GameState {
+  const base = snapshot.settings ? applySettings(state, snapshot.settings) : state;
+  const next: GameState = {
+    ...base,
+    reconnecting: false,
+    lobbyCode: snapshot.code,
+    boardSize: snapshot.boardSize,
+    players: snapshot.players,
+    spectators: snapshot.spectators,
+    numbers: snapshot.numbers,
+    currentTurn: snapshot.currentTurn,
+    currentPlayerName: snapshot.currentPlayerName,
+    gameOverInfo: snapshot.gameOver,
+    moves: snapshot.moves,
+    gameId: sameGame(state, snapshot) ? state.gameId : null,
+    series: snapshot.series,
+    turnTimer: snapshot.turnTimer,
+    turnTimeLeft: snapshot.turnTimeLeft,
+    turnCount: state.turnCount + 1,
+  };
+  if (snapshot.gameOver) return { ...next, phase: "gameOver" };
+  if (snapshot.gameStarted) return { ...next, phase: "playing" };
+  return { ...next, phase: lobbyPhase(next) };
+}
+
+// Leaving a lobby starts over, except for the connection, the player's
+// profile and preferences
+function leave(state: GameState, connectionId: string | null): GameState {
+  const { connection, servers, serverChoice, playerName, avatar, color } =
+    state;
+  return {
+    ...initialGameState,
+    myId: connectionId,
+    connection,
+    servers,
+    serverChoice,
+    playerName,
+    avatar,
+    color,
+  };
+}
+
+function reconnect(state: GameState): GameState {
+  return {
+    ...state,
+    connection: {
+      ...initialGameState.connection,
+      attempt: state.connection.attempt + 1,
+    },
+  };
+}
+
+function reduceServer(state: GameState, action: ServerAction): GameState {
+  switch (action.event) {
+    case "playerList": {
+      const next = { ...state, players: action.payload };
+      return inLobby(state.phase) ? { ...next, phase: lobbyPhase(next) } : next;
+    }
+
+    case "gameStarted":
+      return {
+        ...state,
+        phase: "playing",
+        currentTurn: action.payload.currentTurn,
+        currentPlayerName: action.payload.currentPlayerName,
+        numbers: action.payload.numbers,
+        moves: [],
+        gameId: null,
+        turnTimeLeft: action.payload.turnTimeLeft,
+        turnCount: state.turnCount + 1,
+      };
+
+    case "numberEliminated":
+      return {
+        ...state,
+        numbers: action.payload.remainingNumbers,
+        currentTurn: action.payload.currentTurn,
+        currentPlayerName: action.payload.currentPlayerName,
+        turnTimeLeft: action.payload.turnTimeLeft,
+        turnCount: state.turnCount + 1,
+      };
+
+    case "error": {
+      const { code, message } = action.payload;
+      const display = errorDisplay(code);
+      if (display.kind === "silent") return state;
+      // Field errors stay until the player edits the field
+      const error = { message, code, transient: display.kind !== "field" };
+      // A failed create or join sends the player back to the form
+      if (isAwaitingServer(state.phase)) {
+        return { ...state, phase: "menu", lobbyCode: null, error };
+      }
+      return { ...state, error };
+    }
+
+    case "youWon":
+    case "youLost":
+      return {
+        ...state,
+        result: action.event === "youWon" ? "won" : "lost",
+        elimination: { ...action.payload, playerName: state.playerName },
+      };
+
+    case "playerEliminated":
+      return { ...state, elimination: action.payload };
+
+    case "gameOver":
+      return {
+        ...state,
+        phase: "gameOver",
+        gameOverInfo: action.payload,
+        turnTimeLeft: null,
+      };
+
+    case "lobbyCreated":
+    case "matchFound":
+      return { ...state, phase: "joining", lobbyCode: action.payload };
+
+    case "lobbyList":
+      return { ...state, publicLobbies: action.payload };
+
+    case "lobbyJoined": {
+      const next = {
+        ...state,
+        boardSize: action.payload.boardSize,
+        numbers: createBoard(
+          action.payload.boardSize,
+          state.variant.rangeStart
+        ),
+      };
+      return { ...next, phase: lobbyPhase(next) };
+    }
+
+    case "resetNumbers":
+      return {
+        ...state,
+        error: {
+          message:
+            state.variant.secretCount > 1
+              ? "All players have chosen the same numbers. Pick new numbers."
+              : "All players have chosen the same number. Pick a new number.",
+          transient: false,
+          code: "duplicate-number",
+        },
+      };
+
+    case "lobbyReset": {
+      const next: GameState = {
+        ...state,
+        result: null,
+        gameOverInfo: null,
+        elimination: null,
+        timeout: null,
+        turnTimeLeft: null,
+        moves: [],
+        players: action.payload.players,
+        numbers: action.payload.numbers,
+        currentTurn: null,
+        currentPlayerName: null,
+        boardSize: action.payload.boardSize,
+      };
+      return { ...next, phase: lobbyPhase(next) };
+    }
+
+    case "sessionRestored":
+      return restore(state, action.payload);
+
+    case "rejoinFailed":
+      return leave(state, state.myId);
+
+    case "spectatorJoined":
+      return restore({ ...state, role: "spectator" }, action.payload);
+
+    case "spectatorList":
+      return { ...state, spectators: action.payload };
+
+    case "chatMessage":
+      return {
+        ...state,
+        chat: [...state.chat, action.payload].slice(-CHAT_HISTORY_LIMIT),
+      };
+
+    case "chatHistory":
+      return { ...state, chat: action.payload };
+
+    case "reaction": {
+      if (isMuted(state, action.payload.senderId)) return state;
+      const key = state.reactionKey + 1;
+      return {
+        ...state,
+        reactionKey: key,
+        reactions: [...state.reactions, { ...action.payload, key }],
+      };
+    }
+
+    case "turnTimerChanged":
+      return { ...state, turnTimer: action.payload };
+
+    case "turnTimedOut":
+      return { ...state, timeout: action.payload };
+
+    case "moveRecorded":
+      return { ...state, moves: [...state.moves, action.payload] };
+
+    case "lobbySettings":
+      return applySettings(state, action.payload);
+
+    case "seriesResults":
+      return { ...state, series: action.payload };
+
+    case "kicked":
+      return {
+        ...leave(state, state.myId),
+        error: { message: action.payload, code: "banned", transient: false },
+      };
+  }
+}
+
+// Who should hold a shared device: the next player still picking, or the
+// player whose turn it is
+function withHandoff(state: GameState): GameState {
+  let next: Player | undefined;
+  if (inLobby(state.phase)) {
+    next = state.players.find((p) => !hasPickedAll(p, state.variant));
+  } else if (state.phase === "playing") {
+    next = state.players.find((p) => p.id === state.currentTurn);
+  }
+  const handoff =
+    next && next.id !== state.myId ? { id: next.id, name: next.name } : null;
+  return { ...state, handoff };
+}
+
+/** Pure transition function for the whole game UI; no React or socket involved. */
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case "server": {
+      let next = reduceServer(state, action);
+      if (next.requestStalled && !isAwaitingServer(next.phase)) {
+        next = { ...next, requestStalled: false };
+      }
+      return next.mode === "hotseat" ? withHandoff(next) : next;
+    }
+
+    case "connected": {
+      const connection: ConnectionState = {
+        ...state.connection,
+        status: "connected",
+        failures: 0,
+      };
+      return state.mode === "online"
+        ? { ...state, myId: action.id, connection }
+        : { ...state, connection };
+    }
+
+    case "disconnected": {
+      const connection: ConnectionState = {
+        ...state.connection,
+        status: "reconnecting",
+        latency: null,
+      };
+      return state.mode === "online" && state.lobbyCode
+        ? { ...state, reconnecting: true, connection }
+        : { ...state, connection };
+    }
+
+    case "connectFailed": {
+      const failures = state.connection.failures + 1;
+      return {
+        ...state,
+        connection: {
+          ...state.connection,
+          failures,
+          status:
+            failures >= CONNECT_ATTEMPTS_BEFORE_FAILED
+              ? "failed"
+              : state.connection.status,
+        },
+      };
+    }
+
+    case "latencyMeasured":
+      return {
+        ...state,
+        connection: { ...state.connection, latency: action.latency },
+      };
+
+    case "serversProbed":
+      return { ...state, servers: action.servers };
+
+    case "serverSelected":
+      return {
+        ...state,
+        connection: { ...state.connection, serverUrl: action.url },
+      };
+
+    case "serverChosen":
+      return reconnect({ ...state, serverChoice: action.url });
+
+    case "reconnectRequested":
+      return reconnect(state);
+
+    case "settingsLoaded":
+      return { ...state, serverChoice: action.settings.serverUrl };
+
+    case "requestTimedOut":
+      return isAwaitingServer(state.phase)
+        ? { ...state, requestStalled: true }
+        : state;
+
+    case "requestRetried":
+      return { ...state, requestStalled: false };
+
+    case "rejoinStarted":
+      return {
+        ...state,
+        reconnecting: true,
+        playerName: action.playerName,
+        phase: state.phase === "menu" ? "reconnecting" : state.phase,
+      };
+
+    case "menuStepChanged":
+      return { ...state, menuStep: action.step, error: null };
+
+    case "profileLoaded":
+      return {
+        ...state,
+        // A name typed (or restored) before the profile loaded wins
+        playerName: state.playerName || action.profile.name,
+        avatar: action.profile.avatar,
+        color: action.profile.color,
+      };
+
+    case "nameChanged":
+      return { ...state, playerName: action.name, error: null };
+
+    case "avatarChanged":
+      return { ...state, avatar: action.avatar };
+
+    case "colorChanged":
+      return { ...state, color: action.color };
+
+    case "createRequested":
+      return {
+        ...state,
+        phase: "creating",
+        role: "player",
+        error: null,
+        requestStalled: false,
+      };
+
+    case "quickMatchRequested":
+      return {
+        ...state,
+        phase: "matching",
+        role: "player",
+        error: null,
+        requestStalled: false,
+      };
+
+    case "joinRequested":
+      return {
+        ...state,
+        phase: "joining",
+        role: "player",
+        lobbyCode: action.code,
+        error: null,
+        requestStalled: false,
+      };
+
+    case "watchRequested":
+      return {
+        ...state,
+        phase: "joining",
+        role: "spectator",
+        lobbyCode: action.code,
+        error: null,
+        requestStalled: false,
+      };
+
+    case "botGameStarted":
+      return { ...state, mode: "bots", myId: action.id, error: null };
+
+    case "hotSeatStarted":
+      return { ...state, mode: "hotseat", myId: null, error: null };
+
+    case "handoffAccepted": {
+      if (!state.handoff) return state;
+      const next = { ...state, myId: state.handoff.id, handoff: null, error: null };
+      return inLobby(next.phase) ? { ...next, phase: lobbyPhase(next) } : next;
+    }
+
+    case "numberPicked":
+      return { ...state, error: null };
+
+    case "leftLobby":
+      return leave(state, action.connectionId);
+
+    case "errorRaised":
+      return {
+        ...state,
+        error: {
+          message: action.message,
+          transient: action.transient ?? false,
+          code: action.code,
+        },
+      };
+
+    case "errorDismissed":
+      return { ...state, error: null };
+
+    case "eliminationDismissed":
+      return { ...state, elimination: null };
+
+    case "replayOpened":
+      return { ...state, phase: "replay", replay: action.record, error: null };
+
+    case "replayClosed":
+      return { ...state, phase: "menu", replay: null };
+
+    case "gameIdAssigned":
+      return { ...state, gameId: action.id };
+
+    case "timeoutDismissed":
+      return { ...state, timeout: null };
+
+    case "reactionExpired":
+      return {
+        ...state,
+        reactions: state.reactions.filter((r) => r.key !== action.key),
+      };
+
+    case "muteToggled": {
+      const muted = state.mutedIds.includes(action.id);
+      return {
+        ...state,
+        mutedIds: muted
+          ? state.mutedIds.filter((id) => id !== action.id)
+          : [...state.mutedIds, action.id],
+        reactions: muted
+          ? state.reactions
+          : state.reactions.filter(
+              (r) => muteKey(state, r.senderId) !== action.id
+            ),
+      };
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { GameRuleError, Lobby, Recipient } from "./engine";
+import { CLASSIC_VARIANT } from "./protocol";
+import type {
+  ClientToServerEvents,
+  GameConnection,
+  GameVariant,
+  LobbySettingsUpdate,
+  ServerEvent,
+  ServerToClientEvents,
+  TurnTimerSettings,
+} from "./protocol";
+
+export const MIN_HOT_SEAT_PLAYERS = 2;
+export const MAX_HOT_SEAT_PLAYERS = 8;
+
+export interface HotSeatOptions {
+  playerNames: string[];
+  boardSize: number;
+  variant?: GameVariant;
+}
+
+// Results addressed to one player would show as the whole table's result
+const PERSONAL_RESULTS: ServerEvent[] = ["youWon", "youLost"];
+
+/**
+ * Several players sharing one device. Actions are sent on behalf of whoever
+ * holds the device; the UI decides when it changes hands via handOver().
+ */
+export class HotSeatGame implements GameConnection {
+  private readonly lobby: Lobby;
+  private readonly seatIds: string[];
+  private activeId: string;
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+  private closed = false;
+
+  constructor(
+    private readonly handlers: Partial<ServerToClientEvents>,
+    options: HotSeatOptions
+  ) {
+    this.lobby = new Lobby(
+      "HOTSEAT",
+      options.boardSize,
+      this.deliver,
+      options.variant ?? CLASSIC_VARIANT
+    );
+    this.seatIds = options.playerNames.map((_, i) => `seat-${i + 1}`);
+    this.activeId = this.seatIds[0];
+    options.playerNames.forEach((name, i) =>
+      this.lobby.join(this.seatIds[i], name, this.seatIds[i])
+    );
+  }
+
+  get id() {
+    return this.activeId;
+  }
+
+  /** Acts as `seatId` from now on, e.g. once the device was passed to them. */
+  handOver(seatId: string) {
+    if (this.seatIds.includes(seatId)) this.activeId = seatId;
+  }
+
+  emit<E extends keyof ClientToServerEvents>(
+    event: E,
+    ...args: Parameters<ClientToServerEvents[E]>
+  ) {
+    if (this.closed) return;
+    const [arg] = args as unknown[];
+    try {
+      switch (event) {
+        case "selectNumber":
+          this.lobby.selectNumber(this.activeId, arg as number);
+          break;
+        case "startGame":
+          this.lobby.start(this.activeId);
+          break;
+        case "eliminateNumber":
+          this.lobby.eliminate(this.activeId, arg as number);
+          break;
+        case "playerReadyForReplay":
+          for (const id of this.seatedIds()) this.lobby.readyForReplay(id);
+          break;
+        case "setTurnTimer":
+          this.lobby.setTurnTimer(this.activeId, arg as TurnTimerSettings);
+          break;
+        case "updateLobbySettings":
+          this.lobby.updateSettings(this.activeId, arg as LobbySettingsUpdate);
+          break;
+        case "leaveLobby":
+          this.close();
+          break;
+      }
+    } catch (e) {
+      if (!(e instanceof GameRuleError)) throw e;
+      this.handlers.error?.(e.toGameError());
+    }
+  }
+
+  close() {
+    this.closed = true;
+    this.lobby.dispose();
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private deliver = <E extends ServerEvent>(
+    recipient: Recipient,
+    event: E,
+    ...args: Parameters<ServerToClientEvents[E]>
+  ) => {
+    if (this.closed) return;
+    // Everyone shares the screen, so lobby-wide messages are sent only once
+    const forTable =
+      "to" in recipient
+        ? recipient.to === this.seatIds[0] && !PERSONAL_RESULTS.includes(event)
+        : true;
+    if (forTable) {
+      const handler = this.handlers[event] as
+        | ((...a: Parameters<ServerToClientEvents[E]>) => void)
+        | undefined;
+      handler?.(...args);
+    }
+
+    // There is nobody to press Start, so the game begins once all have picked
+    if (event === "playerList") this.later(() => this.startIfAllPicked());
+  };
+
+  private later(action: () => void) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (!this.closed) action();
+    }, 0);
+    this.timers.add(timer);
+  }
+
+  private seatedIds() {
+    const { players } = this.lobby.snapshot();
+    return this.seatIds.filter((id) => players.some((p) => p.id === id));
+  }
+
+  private startIfAllPicked() {
+    const { players, gameStarted, settings } = this.lobby.snapshot();
+    const secretCount = settings?.variant.secretCount ?? 1;
+    const ready =
+      players.length >= MIN_HOT_SEAT_PLAYERS &&
+      players.every((p) => p.selectedNumbers.length >= secretCount);
+    if (gameStarted || !ready) return;
+    this.lobby.start(settings?.leaderId ?? this.seatIds[0]);
+  }
+}
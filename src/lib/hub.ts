@@ -0,0 +1,336 @@
+import {
+  BOARD_SIZES,
+  DEFAULT_BOARD_SIZE,
+  GameRuleError,
+  Lobby,
+  Recipient,
+} from "./engine";
+import {
+  CLASSIC_VARIANT,
+  isClientEvent,
+  parseClientEvent,
+  ProtocolError,
+} from "./protocol";
+import type {
+  ClientToServerEvents,
+  GameVariant,
+  LobbySummary,
+  ServerEvent,
+  ServerToClientEvents,
+} from "./protocol";
+import { variantError } from "./variants";
+
+type ClientEvent = keyof ClientToServerEvents;
+
+/** Sends one event to one connection, however the transport reaches it. */
+export type Deliver = <E extends ServerEvent>(
+  connectionId: string,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+) => void;
+
+export interface HubOptions {
+  /** How long a disconnected player keeps their seat, in milliseconds. */
+  seatGracePeriod?: number;
+}
+
+/**
+ * Everything the backend does between the transport and the lobbies: lobby
+ * codes, routing, the lobby browser and keeping seats for dropped players.
+ */
+export interface LobbyHub {
+  /**
+   * Acts on an event from a client; names it does not know are ignored and
+   * malformed arguments are answered with an "invalid-request" error.
+   */
+  handle(connectionId: string, event: string, args: unknown[]): void;
+  disconnect(connectionId: string): void;
+  dispose(): void;
+}
+
+// Batches bursts of lobby changes into one lobbyList update
+const LIST_UPDATE_DELAY = 250;
+// Events that change what the lobby browser shows
+const LISTED_EVENTS: ServerEvent[] = [
+  "playerList",
+  "lobbySettings",
+  "gameStarted",
+  "lobbyReset",
+];
+
+const CODE_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+
+function generateCode(taken: Map<string, Lobby>) {
+  let code: string;
+  do {
+    code = Array.from(
+      { length: 5 },
+      () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+    ).join("");
+  } while (taken.has(code));
+  return code;
+}
+
+export function createLobbyHub(
+  deliver: Deliver,
+  options: HubOptions = {}
+): LobbyHub {
+  const seatGracePeriod = options.seatGracePeriod ?? 60_000;
+  const lobbies = new Map<string, Lobby>();
+  const lobbyOf = new Map<string, string>();
+  // Connections that get lobbyList updates
+  const browsers = new Set<string>();
+  const pendingRemovals = new Map<string, ReturnType<typeof setTimeout>>();
+  let listUpdate: ReturnType<typeof setTimeout> | null = null;
+
+  const lobbyList = () =>
+    [...lobbies.values()]
+      .map((lobby) => lobby.summary())
+      .filter((summary): summary is LobbySummary => summary !== null);
+
+  const scheduleListUpdate = () => {
+    if (listUpdate) return;
+    listUpdate = setTimeout(() => {
+      listUpdate = null;
+      const list = lobbyList();
+      for (const id of browsers) deliver(id, "lobbyList", list);
+    }, LIST_UPDATE_DELAY);
+  };
+
+  const membersOf = (code: string) =>
+    [...lobbyOf].filter(([, c]) => c === code).map(([id]) => id);
+
+  const sendFor =
+    (code: string) =>
+    <E extends ServerEvent>(
+      recipient: Recipient,
+      event: E,
+      ...args: Parameters<ServerToClientEvents[E]>
+    ) => {
+      const targets =
+        "to" in recipient
+          ? [recipient.to]
+          : membersOf(code).filter((id) => id !== recipient.except);
+      for (const id of targets) deliver(id, event, ...args);
+      if (LISTED_EVENTS.includes(event)) scheduleListUpdate();
+      // A kicked player must stop receiving the lobby's broadcasts at once
+      if (event === "kicked" && "to" in recipient) lobbyOf.delete(recipient.to);
+    };
+
+  const createLobby = (
+    boardSize: number,
+    variant: GameVariant,
+    isPublic: boolean
+  ) => {
+    const code = generateCode(lobbies);
+    lobbies.set(
+      code,
+      new Lobby(code, boardSize, sendFor(code), variant, isPublic)
+    );
+    return code;
+  };
+
+  const removeLobby = (lobby: Lobby) => {
+    lobby.dispose();
+    lobbies.delete(lobby.code);
+    scheduleListUpdate();
+  };
+
+  const leaveCurrentLobby = (id: string) => {
+    const code = lobbyOf.get(id);
+    if (!code) return;
+    lobbyOf.delete(id);
+    const lobby = lobbies.get(code);
+    if (!lobby) return;
+    lobby.leave(id);
+    if (lobby.isEmpty) removeLobby(lobby);
+  };
+
+  // Enters the lobby before acting so the caller receives the broadcasts the
+  // action sends, and backs out again if the lobby rejects them.
+  const enterLobby = (
+    id: string,
+    code: string,
+    action: (lobby: Lobby) => void
+  ) => {
+    const lobby = lobbies.get(code);
+    if (!lobby) throw new GameRuleError("lobby-not-found", "Lobby not found");
+    if (lobbyOf.get(id) !== code) leaveCurrentLobby(id);
+    lobbyOf.set(id, code);
+    try {
+      action(lobby);
+    } catch (e) {
+      lobbyOf.delete(id);
+      throw e;
+    }
+  };
+
+  // Runs an action, reporting rule violations to the caller
+  const guarded = (id: string, action: () => void) => {
+    try {
+      action();
+    } catch (e) {
+      if (!(e instanceof GameRuleError)) throw e;
+      deliver(id, "error", e.toGameError());
+    }
+  };
+
+  // Runs an action against the caller's lobby
+  const inLobby = (id: string, action: (lobby: Lobby) => void) => {
+    const lobby = lobbies.get(lobbyOf.get(id) ?? "");
+    if (!lobby) {
+      deliver(id, "error", {
+        code: "not-in-lobby",
+        message: "You are not in a lobby",
+      });
+      return;
+    }
+    guarded(id, () => action(lobby));
+  };
+
+  const handlers: {
+    [E in ClientEvent]: (
+      id: string,
+      ...args: Parameters<ClientToServerEvents[E]>
+    ) => void;
+  } = {
+    createLobby: (id, { boardSize, variant = CLASSIC_VARIANT, isPublic }) => {
+      if (!BOARD_SIZES.includes(boardSize)) {
+        deliver(id, "error", {
+          code: "invalid-settings",
+          message: "Invalid board size",
+        });
+        return;
+      }
+      const invalid = variantError(variant);
+      if (invalid) {
+        deliver(id, "error", { code: "invalid-settings", message: invalid });
+        return;
+      }
+      // Copy the known fields only; the lobby shares the variant with everyone
+      const { lastSurvivor, secretCount, neighbours, rangeStart } = variant;
+      const rules = { lastSurvivor, secretCount, neighbours, rangeStart };
+      deliver(id, "lobbyCreated", createLobby(boardSize, rules, Boolean(isPublic)));
+    },
+
+    quickMatch: (id, { token }) => {
+      // Fill up the fullest open lobby first so games get going sooner
+      const best = [...lobbies.values()]
+        .filter((lobby) => lobby.isOpenTo(token))
+        .sort((a, b) => b.summary()!.players - a.summary()!.players)[0];
+      deliver(
+        id,
+        "matchFound",
+        best?.code ?? createLobby(DEFAULT_BOARD_SIZE, CLASSIC_VARIANT, true)
+      );
+    },
+
+    browseLobbies: (id) => {
+      browsers.add(id);
+      deliver(id, "lobbyList", lobbyList());
+    },
+    stopBrowsing: (id) => {
+      browsers.delete(id);
+    },
+
+    joinLobby: (id, { code, playerName, token, avatar, color }) =>
+      guarded(id, () =>
+        enterLobby(id, code, (lobby) =>
+          lobby.join(id, playerName, token, { avatar, color })
+        )
+      ),
+
+    rejoinLobby: (id, { code, token }) => {
+      const lobby = lobbies.get(code);
+      if (!lobby) {
+        deliver(id, "rejoinFailed", "Lobby no longer exists");
+        return;
+      }
+      lobbyOf.set(id, code);
+      try {
+        lobby.rejoin(id, token);
+      } catch (e) {
+        lobbyOf.delete(id);
+        if (!(e instanceof GameRuleError)) throw e;
+        deliver(id, "rejoinFailed", e.message);
+        return;
+      }
+      const removal = pendingRemovals.get(token);
+      if (removal) clearTimeout(removal);
+      pendingRemovals.delete(token);
+    },
+
+    spectateLobby: (id, { code, spectatorName }) =>
+      guarded(id, () =>
+        enterLobby(id, code, (lobby) => lobby.watch(id, spectatorName))
+      ),
+
+    selectNumber: (id, number) =>
+      inLobby(id, (lobby) => lobby.selectNumber(id, number)),
+    startGame: (id) => inLobby(id, (lobby) => lobby.start(id)),
+    eliminateNumber: (id, number) =>
+      inLobby(id, (lobby) => lobby.eliminate(id, number)),
+    playerReadyForReplay: (id) =>
+      inLobby(id, (lobby) => lobby.readyForReplay(id)),
+    sendChatMessage: (id, text) => inLobby(id, (lobby) => lobby.say(id, text)),
+    sendReaction: (id, emoji) => inLobby(id, (lobby) => lobby.react(id, emoji)),
+    setTurnTimer: (id, settings) =>
+      inLobby(id, (lobby) => lobby.setTurnTimer(id, settings)),
+    updateLobbySettings: (id, changes) =>
+      inLobby(id, (lobby) => lobby.updateSettings(id, changes)),
+    kickPlayer: (id, playerId) =>
+      inLobby(id, (lobby) => lobby.kick(id, playerId)),
+    transferLeadership: (id, playerId) =>
+      inLobby(id, (lobby) => lobby.transferLeadership(id, playerId)),
+    leaveLobby: (id) => leaveCurrentLobby(id),
+
+    heartbeat: (_id, ack) => ack(),
+  };
+
+  return {
+    handle: (id, event, args) => {
+      if (!isClientEvent(event)) return;
+      let parsed: unknown[];
+      try {
+        parsed = parseClientEvent(event, args);
+      } catch (e) {
+        if (!(e instanceof ProtocolError)) throw e;
+        deliver(id, "error", { code: "invalid-request", message: e.message });
+        return;
+      }
+      const handler = handlers[event] as (
+        id: string,
+        ...args: unknown[]
+      ) => void;
+      handler(id, ...parsed);
+    },
+
+    disconnect: (id) => {
+      browsers.delete(id);
+      const code = lobbyOf.get(id);
+      const lobby = code ? lobbies.get(code) : undefined;
+      const token = lobby?.tokenOf(id);
+      if (!lobby || !token) {
+        leaveCurrentLobby(id);
+        return;
+      }
+      // Keep the seat for a while so the player can resume their session
+      lobbyOf.delete(id);
+      pendingRemovals.set(
+        token,
+        setTimeout(() => {
+          pendingRemovals.delete(token);
+          lobby.leave(id);
+          if (lobby.isEmpty) removeLobby(lobby);
+        }, seatGracePeriod)
+      );
+    },
+
+    dispose: () => {
+      for (const timer of pendingRemovals.values()) clearTimeout(timer);
+      pendingRemovals.clear();
+      if (listUpdate) clearTimeout(listUpdate);
+      for (const lobby of lobbies.values()) lobby.dispose();
+    },
+  };
+}
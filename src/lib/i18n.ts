@@ -0,0 +1,74 @@
+import { da } from "./messages/da";
+import { en, type MessageKey, type Messages } from "./messages/en";
+
+export type { MessageKey } from "./messages/en";
+
+export const LOCALES = ["da", "en"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+/** Used when the browser asks for none of the shipped languages. */
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Each language's name in that language, for the switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  da: "Dansk",
+  en: "English",
+};
+
+/** Read by the server too, so the first render is in the right language. */
+export const LOCALE_COOKIE = "streg.locale";
+
+const CATALOGUES: Record<Locale, Messages> = { da, en };
+
+export type MessageParams = Record<string, string | number>;
+
+/** Looks up messages for one language. */
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((locale) => locale === value);
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const messages = CATALOGUES[locale];
+  return {
+    locale,
+    t: (key, params = {}) =>
+      messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in params ? String(params[name]) : placeholder
+      ),
+  };
+}
+
+/**
+ * The language to use: the one picked in the switcher if any, otherwise the
+ * best match in the browser's Accept-Language header.
+ */
+export function resolveLocale(
+  saved: string | undefined,
+  acceptLanguage: string | null
+): Locale {
+  if (isLocale(saved)) return saved;
+  const preferred = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((p) => p.trim().startsWith("q="));
+      return {
+        language: tag.toLowerCase().split("-")[0],
+        q: q ? Number(q.trim().slice(2)) || 0 : 1,
+      };
+    })
+    .sort((a, b) => b.q - a.q);
+  const match = preferred.find((p) => isLocale(p.language))?.language;
+  return isLocale(match) ? match : DEFAULT_LOCALE;
+}
+
+/** Remembers the player's language in this browser for a year. */
+export function saveLocale(locale: Locale) {
+  document.cookie =
+    `${LOCALE_COOKIE}=${locale}; path=/; max-age=31536000; samesite=lax`;
+}
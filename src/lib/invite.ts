@@ -0,0 +1,12 @@
+export const LOBBY_CODE_LENGTH = 5;
+const LOBBY_CODE_PATTERN = /^[A-Z0-9]{5}$/;
+
+/** Normalizes a lobby code from user input or a URL; null if it can't be one. */
+export function parseLobbyCode(raw: string): string | null {
+  const code = raw.trim().toUpperCase();
+  return LOBBY_CODE_PATTERN.test(code) ? code : null;
+}
+
+export function inviteUrl(code: string) {
+  return `${window.location.origin}/lobby/${code}`;
+}
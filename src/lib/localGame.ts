@@ -0,0 +1,214 @@
+import {
+  BOT_NAMES,
+  BotDifficulty,
+  chooseElimination,
+  chooseSecretNumber,
+} from "./bots";
+import { GameRuleError, Lobby, Recipient } from "./engine";
+import { BOT_AVATAR } from "./profile";
+import { CLASSIC_VARIANT } from "./protocol";
+import type {
+  ClientToServerEvents,
+  GameConnection,
+  GameVariant,
+  LobbySettingsUpdate,
+  ServerEvent,
+  ServerToClientEvents,
+  TurnTimerSettings,
+} from "./protocol";
+
+export const MAX_BOTS = 7;
+export const LOCAL_PLAYER_ID = "local-player";
+const BOT_THINKING_TIME = 900;
+
+export interface LocalGameOptions {
+  playerName: string;
+  avatar?: string;
+  color?: string;
+  boardSize: number;
+  botCount: number;
+  difficulty: BotDifficulty;
+  variant?: GameVariant;
+}
+
+/**
+ * A single-player game against bots that runs entirely in the browser. It
+ * feeds the same events into the UI handlers as the server would.
+ */
+export class LocalGame implements GameConnection {
+  readonly id = LOCAL_PLAYER_ID;
+  private readonly lobby: Lobby;
+  private readonly botIds: string[];
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+  private closed = false;
+
+  constructor(
+    private readonly handlers: Partial<ServerToClientEvents>,
+    private readonly options: LocalGameOptions
+  ) {
+    this.lobby = new Lobby(
+      "LOCAL",
+      options.boardSize,
+      this.deliver,
+      options.variant ?? CLASSIC_VARIANT
+    );
+    this.botIds = Array.from(
+      { length: Math.min(Math.max(options.botCount, 1), MAX_BOTS) },
+      (_, i) => `bot-${i + 1}`
+    );
+
+    this.lobby.join(this.id, options.playerName, this.id, {
+      avatar: options.avatar,
+      color: options.color,
+    });
+    this.botIds.forEach((id, i) =>
+      this.lobby.join(id, BOT_NAMES[i], id, { avatar: BOT_AVATAR })
+    );
+    this.botsPickNumbers();
+  }
+
+  emit<E extends keyof ClientToServerEvents>(
+    event: E,
+    ...args: Parameters<ClientToServerEvents[E]>
+  ) {
+    if (this.closed) return;
+    const [arg] = args as unknown[];
+    try {
+      switch (event) {
+        case "selectNumber":
+          this.lobby.selectNumber(this.id, arg as number);
+          break;
+        case "startGame":
+          this.lobby.start(this.id);
+          break;
+        case "eliminateNumber":
+          this.lobby.eliminate(this.id, arg as number);
+          break;
+        case "playerReadyForReplay":
+          for (const id of this.seatedBots()) this.lobby.readyForReplay(id);
+          this.lobby.readyForReplay(this.id);
+          break;
+        case "sendChatMessage":
+          this.lobby.say(this.id, arg as string);
+          break;
+        case "sendReaction":
+          this.lobby.react(this.id, arg as string);
+          break;
+        case "setTurnTimer":
+          this.lobby.setTurnTimer(this.id, arg as TurnTimerSettings);
+          break;
+        case "updateLobbySettings":
+          this.lobby.updateSettings(this.id, arg as LobbySettingsUpdate);
+          break;
+        case "kickPlayer":
+          this.lobby.kick(this.id, arg as string);
+          break;
+        case "transferLeadership":
+          this.lobby.transferLeadership(this.id, arg as string);
+          break;
+        case "leaveLobby":
+          this.close();
+          break;
+      }
+    } catch (e) {
+      if (!(e instanceof GameRuleError)) throw e;
+      this.handlers.error?.(e.toGameError());
+    }
+  }
+
+  close() {
+    this.closed = true;
+    this.lobby.dispose();
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private deliver = <E extends ServerEvent>(
+    recipient: Recipient,
+    event: E,
+    ...args: Parameters<ServerToClientEvents[E]>
+  ) => {
+    if (this.closed) return;
+    const forMe =
+      "to" in recipient ? recipient.to === this.id : recipient.except !== this.id;
+    if (forMe) {
+      const handler = this.handlers[event] as
+        | ((...a: Parameters<ServerToClientEvents[E]>) => void)
+        | undefined;
+      handler?.(...args);
+    }
+
+    // A smaller board may have cleared some bots' picks
+    if (
+      event === "resetNumbers" ||
+      event === "lobbyReset" ||
+      event === "lobbySettings"
+    ) {
+      this.later(() => this.botsPickNumbers(), 0);
+    }
+    if (event === "gameStarted" || event === "numberEliminated") {
+      const { currentTurn } = args[0] as { currentTurn: string };
+      if (this.botIds.includes(currentTurn)) {
+        this.later(() => this.botTurn(currentTurn), BOT_THINKING_TIME);
+      }
+    }
+  };
+
+  private later(action: () => void, delay: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (!this.closed) action();
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private seatedBots() {
+    const { players } = this.lobby.snapshot();
+    return this.botIds.filter((id) => players.some((p) => p.id === id));
+  }
+
+  private botsPickNumbers() {
+    const { players, boardSize, gameStarted, settings } = this.lobby.snapshot();
+    if (gameStarted || !settings) return;
+    const { secretCount, rangeStart } = settings.variant;
+    for (const id of this.botIds) {
+      const bot = players.find((p) => p.id === id);
+      if (!bot) continue;
+      const picks = [...bot.selectedNumbers];
+      while (picks.length < secretCount) {
+        const number = chooseSecretNumber(boardSize, rangeStart, picks);
+        this.lobby.selectNumber(id, number);
+        picks.push(number);
+      }
+    }
+  }
+
+  private botTurn(id: string) {
+    const { players, numbers, currentTurn } = this.lobby.snapshot();
+    if (currentTurn !== id) return;
+    const secretsOf = (pid: string) =>
+      players.find((p) => p.id === pid)?.selectedNumbers ?? [];
+    const ownNumbers = secretsOf(id);
+
+    const view = { numbers, ownNumbers };
+    let choice: number | null;
+    if (this.options.difficulty === "adversarial") {
+      // Keep the human in while going out is safe, and go after them otherwise
+      const human = secretsOf(this.id);
+      const bots = this.botIds
+        .filter((b) => b !== id)
+        .flatMap(secretsOf)
+        .filter((n) => !ownNumbers.includes(n));
+      const survivorWins = this.options.variant?.lastSurvivor === "wins";
+      choice = chooseElimination("adversarial", {
+        ...view,
+        avoid: survivorWins ? bots : human,
+        prefer: survivorWins ? human : bots,
+      });
+    } else {
+      choice = chooseElimination(this.options.difficulty, view);
+    }
+    // The engine passes over a bot with no legal move, so this is only a guard
+    if (choice !== null) this.lobby.eliminate(id, choice);
+  }
+}
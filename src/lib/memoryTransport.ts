@@ -0,0 +1,95 @@
+import { createLobbyHub, HubOptions } from "./hub";
+import { dispatchServerEvent } from "./protocol";
+import type { ClientToServerEvents } from "./protocol";
+import { memoryIdentity } from "./session";
+import type { Transport, TransportListeners } from "./transport";
+
+type Receive = (event: string, args: unknown[]) => void;
+
+/**
+ * A backend that lives in this JavaScript context. Every MemoryTransport
+ * attached to the same server plays in the same set of lobbies.
+ */
+export class MemoryServer {
+  private readonly clients = new Map<string, Receive>();
+  private readonly hub;
+  private connections = 0;
+
+  constructor(options: HubOptions = {}) {
+    this.hub = createLobbyHub(
+      (id, event, ...args) => this.clients.get(id)?.(event, args),
+      options
+    );
+  }
+
+  attach(receive: Receive) {
+    const id = `memory-${++this.connections}`;
+    this.clients.set(id, receive);
+    return id;
+  }
+
+  detach(id: string) {
+    if (this.clients.delete(id)) this.hub.disconnect(id);
+  }
+
+  receive(id: string, event: string, args: unknown[]) {
+    if (this.clients.has(id)) this.hub.handle(id, event, args);
+  }
+
+  dispose() {
+    this.hub.dispose();
+    this.clients.clear();
+  }
+}
+
+/**
+ * Talks to a MemoryServer. Messages are copied and delivered on a later
+ * microtask, like they would be over a network, so callers can't rely on
+ * shared objects or synchronous replies.
+ */
+export class MemoryTransport implements Transport {
+  private connectionId: string | undefined;
+  // Transports sharing a server are separate players, even in one tab
+  readonly identity = memoryIdentity();
+
+  constructor(private readonly server = new MemoryServer()) {}
+
+  get id() {
+    return this.connectionId;
+  }
+
+  open(listeners: TransportListeners) {
+    const id = this.server.attach((event, args) => {
+      const copy = structuredClone(args);
+      queueMicrotask(() => {
+        if (this.connectionId !== id) return;
+        dispatchServerEvent(
+          listeners.handlers,
+          event,
+          copy,
+          listeners.onProtocolError
+        );
+      });
+    });
+    this.connectionId = id;
+    queueMicrotask(() => {
+      if (this.connectionId === id) listeners.onConnect(id);
+    });
+  }
+
+  emit<E extends keyof ClientToServerEvents>(
+    event: E,
+    ...args: Parameters<ClientToServerEvents[E]>
+  ) {
+    const id = this.connectionId;
+    if (!id) return;
+    const copy = structuredClone(args);
+    queueMicrotask(() => this.server.receive(id, event, copy));
+  }
+
+  close() {
+    const id = this.connectionId;
+    this.connectionId = undefined;
+    if (id) this.server.detach(id);
+  }
+}
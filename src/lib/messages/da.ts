@@ -0,0 +1,425 @@
+import type { Messages } from "./en";
+
+export const da: Messages = {
+  // Shared across screens
+  "common.back": "Tilbage",
+  "common.close": "Luk",
+  "common.start": "Start",
+  "common.mainMenu": "Hovedmenu",
+  "common.backToMenu": "Tilbage til hovedmenuen",
+  "common.tryAgain": "Prøv igen",
+  "common.you": "(Dig)",
+  "common.language": "Sprog",
+  "common.dismiss": "Luk",
+  "common.numbers": "{count} tal",
+  "common.players": "{count} spillere",
+  "common.seconds": "{count} sekunder",
+  "common.secondsLeft": "{count} sekunder tilbage",
+  "common.highContrast": "◐ Høj kontrast",
+
+  // Main menu and its forms
+  "menu.title": "Velkommen til spillet!",
+  "menu.info": "Om spillet",
+  "menu.create": "Opret spil",
+  "menu.join": "Deltag i spil",
+  "menu.browse": "Find spil",
+  "menu.watch": "Se et spil",
+  "menu.bots": "Spil mod bots",
+  "menu.hotSeat": "Send rundt",
+  "menu.review": "Gennemse et gemt spil",
+  "menu.stats": "Min statistik",
+  "menu.settings": "Indstillinger",
+  "menu.namePlaceholder": "Skriv dit navn",
+  "menu.nameLabel": "Dit navn",
+  "menu.boardSize": "Brættets størrelse",
+  "menu.public": "🌐 Offentligt (vises under Find spil)",
+  "menu.createLobby": "Opret lobby",
+  "menu.botCount": "Bots",
+  "menu.botsOne": "{count} bot",
+  "menu.botsMany": "{count} bots",
+  "menu.difficulty": "Sværhedsgrad",
+  "menu.hotSeatIntro": "Del én enhed, og send den rundt på skift.",
+  "menu.seatPlaceholder": "Spiller {number}",
+  "menu.removeSeat": "Fjern spiller {number}",
+  "menu.addSeat": "+ Tilføj spiller",
+  "menu.quickMatch": "Hurtigt spil",
+  "menu.joinInvited": "Deltag i lobby {code}",
+  "menu.codePlaceholder": "Skriv lobbykode",
+  "menu.codeLabel": "Lobbykode",
+  "menu.joinLobby": "Deltag i lobby",
+  "menu.watchLobby": "Se lobby",
+  "menu.justWatch": "Bare se med i stedet",
+  "menu.invalidRecord": "Filen er ikke et gyldigt gemt spil: {reason}",
+  "menu.seatNamesShort": "Navne skal være mindst {min} tegn lange",
+  "menu.seatNamesTaken": "Alle spillere skal have forskellige navne",
+
+  "bots.random": "Tilfældig",
+  "bots.cautious": "Forsigtig",
+  "bots.adversarial": "Snu",
+
+  // Player profile
+  "profile.summary": "Udseende: {avatar} i {color}",
+  "profile.avatar": "Avatar",
+  "profile.color": "Farve",
+  "profile.colorHint":
+    "Hvis en anden i lobbyen allerede har din farve, får du en ledig.",
+  "profile.color.red": "Rød",
+  "profile.color.blue": "Blå",
+  "profile.color.amber": "Rav",
+  "profile.color.purple": "Lilla",
+  "profile.color.teal": "Blågrøn",
+  "profile.color.pink": "Lyserød",
+  "profile.color.lime": "Limegrøn",
+  "profile.color.orange": "Orange",
+  "profile.color.cyan": "Cyan",
+  "profile.color.fuchsia": "Fuchsia",
+
+  // Public lobby browser
+  "browser.loading": "Henter spil...",
+  "browser.empty":
+    "Ingen offentlige spil lige nu. Opret et, eller prøv et hurtigt spil!",
+  "browser.hostsGame": "{name}s spil",
+  "browser.summary": "{players}/{max} spillere · {size} tal · {rules}",
+  "browser.inProgress": "I gang",
+  "browser.full": "Fuld",
+  "browser.waiting": "Venter på spillere",
+  "browser.join": "Deltag",
+  "browser.watch": "Se med",
+
+  // Rules
+  "rules.title": "Sådan spiller du",
+  "rules.intro": "Dette er et spil, hvor tal bliver elimineret.",
+  "rules.button": "Regler",
+  "rules.summary": "Regler: {rules}",
+  "rules.classic": "Klassiske regler",
+  "rules.survivorWins": "Den sidste overlevende vinder",
+  "rules.numbersEach": "{count} tal hver",
+  "rules.neighbours": "Naboerne ryger med",
+  "rules.range": "Tal {first}–{last}",
+  "rules.pickOne": "Alle vælger et hemmeligt tal.",
+  "rules.pickMany": "Alle vælger {count} forskellige hemmelige tal.",
+  "rules.eliminate":
+    "Spillerne skiftes til at eliminere tal fra brættet, men aldrig deres egne.",
+  "rules.eliminateNeighbours":
+    "Spillerne skiftes til at eliminere et tal fra brættet, men aldrig deres eget. Tallene lige ved siden af ryger med, medmindre de er dine.",
+  "rules.outOne": "Når dit hemmelige tal bliver elimineret, er du ude",
+  "rules.outMany": "Når alle dine hemmelige tal er elimineret, er du ude",
+  "rules.survivorWinsResult":
+    "{out}: jo før du ryger ud, jo dårligere placering. Den sidste spiller tilbage vinder!",
+  "rules.survivorLosesResult":
+    "{out} og i sikkerhed. Den sidste spiller tilbage taber!",
+  "rules.lastPlayer": "Den sidste spiller tilbage",
+  "rules.loses": "Taber (klassisk)",
+  "rules.wins": "Vinder",
+  "rules.secretCount": "Hemmelige tal hver",
+  "rules.firstNumber": "Første tal",
+  "rules.neighboursOption": "Når et tal elimineres, ryger naboerne med",
+
+  // Waiting on the server
+  "status.creating": "Opretter lobby...",
+  "status.matching": "Finder et spil...",
+  "status.joining": "Går ind i lobbyen...",
+  "status.reconnecting": "Genopretter forbindelsen…",
+  "status.stalled":
+    "Serveren har ikke svaret endnu. Hvis den sov, kan det tage op til et minut, før den vågner.",
+  "status.protocolError":
+    "Modtog en uventet \"{event}\"-besked fra serveren.",
+
+  // Lobby
+  "lobby.code": "Lobbykode:",
+  "lobby.players": "Spillere i lobbyen ({count}/{max})",
+  "lobby.leader": "(Vært)",
+  "lobby.makeLeader": "Gør til vært",
+  "lobby.kick": "Smid ud",
+  "lobby.confirmKick": "Fjern {name} fra lobbyen?",
+  "lobby.startGame": "Start spillet",
+  "lobby.pickOne": "Vælg dit tal",
+  "lobby.pickMany": "Vælg dine tal ({picked}/{count})",
+  "lobby.repickOne": "Vælg et andet tal",
+  "lobby.repickMany": "Vælg andre tal",
+  "lobby.pickGrid": "Tal at vælge imellem",
+  "lobby.picked": "{number}, valgt",
+  "lobby.watching": "Du ser med i denne lobby.",
+  "lobby.boardLater": "Brættet vises her, når spillet starter.",
+  "lobby.waitingOne": "Venter på, at de andre spillere vælger deres tal...",
+  "lobby.waitingMany": "Venter på, at de andre spillere vælger deres tal...",
+  "lobby.yourNumber": "Dit tal: {numbers}",
+  "lobby.yourNumbers": "Dine tal: {numbers}",
+  "lobby.spectators": "Tilskuere ({count})",
+
+  // Host settings
+  "host.title": "Værtens indstillinger",
+  "host.maxPlayers": "Højst antal spillere",
+  "host.turnTimer": "Tid pr. tur",
+  "host.timerOff": "Fra",
+  "host.onTimeout": "Når tiden løber ud",
+  "host.timeoutRandom": "Eliminér et tilfældigt tal",
+  "host.timeoutSkip": "Spring turen over",
+  "host.lock": "🔒 Lås lobbyen (ingen nye spillere)",
+  "host.assistant": "🧮 Tillad risikoassistenten",
+  "host.summary": "Tal {first}–{last} · op til {max} spillere · ⏱ {timer}",
+  "host.noTimer": "ingen tidsgrænse",
+  "host.timerRandom":
+    "{seconds} sekunder pr. tur, derefter elimineres et tilfældigt tal",
+  "host.timerSkip": "{seconds} sekunder pr. tur, derefter springes turen over",
+  "host.public": " · 🌐 Offentlig",
+  "host.locked": " · 🔒 Låst",
+  "host.noAssistant": " · 🧮 Ingen assistent",
+  "host.series": "Serie",
+  "host.seriesOff": "Enkelte spil",
+  "host.seriesLength": "Serie på {count} spil",
+  "host.tieBreak": "Ved pointlighed",
+  "host.tieBreakWins": "Flest sejre går forrest",
+  "host.tieBreakLatest": "Bedste placering i seneste spil går forrest",
+  "host.tieBreakShared": "Spillerne deler pladsen",
+  "host.seriesSummary": " · 🏆 Serie på {count} spil",
+
+  // Invites
+  "invite.copy": "Kopiér invitationslink",
+  "invite.copied": "Kopieret!",
+  "invite.copyFailed": "Linket kunne ikke kopieres; her er det, så du selv kan kopiere det:",
+  "invite.share": "Del",
+  "invite.qr": "QR-kode",
+  "invite.hideQr": "Skjul QR-kode",
+  "invite.qrLabel": "QR-kode til lobby {code}",
+  "invite.qrFailed": "QR-koden kunne ikke tegnes.",
+  "invite.shareTitle": "Vær med i mit spil",
+  "invite.shareText": "Kom med i min lobby {code}",
+
+  // Chat
+  "chat.title": "Chat",
+  "chat.empty": "Ingen beskeder endnu.",
+  "chat.react": "Reagér med {emoji}",
+  "chat.placeholder": "Skriv noget...",
+  "chat.send": "Send",
+  "chat.mutePlayers": "Gør spillere tavse",
+  "chat.mute": "🔈 Gør tavs",
+  "chat.unmute": "🔇 Slå lyd til",
+
+  // The game board
+  "board.currentTurn": "Tur:",
+  "board.yourTurn": "▶ Din tur: vælg et tal at eliminere",
+  "board.hurry": "Skynd dig! Vælg et tal, før tiden løber ud.",
+  "board.spectating": "👀 Du ser med",
+  "board.title": "Spillebræt",
+  "board.label": "Spillebræt",
+  "board.lastMove": "Seneste træk: {move}",
+  "board.eliminatedBy": "Elimineret af {name}",
+  "board.tileEliminated": "{number}, elimineret",
+  "board.tileEliminatedBy": "{number}, elimineret af {name}",
+  "board.tileMine": "dit tal",
+  "board.tileChance": "{chance} chance for at slå nogen ud",
+  "board.tileSuggested": "anbefalet",
+  "board.players": "Spillere",
+  "board.knockedOut": "{name} fik {place} plads! Deres tal var {number}.",
+  "board.timedOut": "{name} løb tør for tid!",
+  "board.timeoutRandom": "{number} blev elimineret tilfældigt.",
+  "board.timeoutSkip": "Deres tur blev sprunget over.",
+  "board.won": "Vandt - {place} plads",
+  "board.out": "Ude - {place} plads",
+  "board.turnBadge": "Har turen",
+  "board.gridHelp":
+    "Brug piletasterne til at flytte mellem tallene, skriv et tal for at hoppe til det, og tryk Enter for at vælge det.",
+
+  // Moves, as in the move log
+  "move.history": "Trækhistorik",
+  "move.none": "Ingen træk endnu.",
+  "move.skipped": "{name} løb tør for tid og blev sprunget over",
+  "move.random": "{name} løb tør for tid; {number} blev elimineret tilfældigt",
+  "move.eliminated": "{name} eliminerede {number}",
+  "move.neighbours": " ({numbers} røg med)",
+  "move.and": " og ",
+  "move.knockout": "{name} er ude ({place} plads)",
+
+  // Risk assistant
+  "assistant.toggleOn": "🧮 Assistent til",
+  "assistant.toggleOff": "🧮 Assistent fra",
+  "assistant.notYourTurn": "🧮 Assistenten vurderer dine muligheder på din tur.",
+  "assistant.nothingLeft": "🧮 Der er ikke flere tal, du kan vælge.",
+  "assistant.thinking": "🧮 Overvejer dine muligheder…",
+  "assistant.estimate":
+    "🧮 Eliminér {number}{suggested}: {chance} chance for at slå nogen ud, forventet placering {place}",
+  "assistant.suggested": " ⭐ (anbefalet)",
+  "assistant.odds": "{place}: {chance}",
+  "assistant.disclaimer":
+    "Anslået ud fra tilfældigt gennemspillede spil; modstandernes tal bliver gættet, aldrig kigget på.",
+
+  // Pass and play
+  "handoff.timedOut": "{name} løb tør for tid!",
+  "handoff.title": "Giv enheden til {name}",
+  "handoff.pickOne":
+    "Alle andre kigger væk, mens de vælger deres hemmelige tal.",
+  "handoff.pickMany":
+    "Alle andre kigger væk, mens de vælger deres hemmelige tal.",
+  "handoff.turn": "Det er deres tur. Alle andre: ingen kiggen på brættet!",
+  "handoff.ready": "Jeg er {name}, vis mig det",
+  "handoff.quit": "Afslut til hovedmenuen",
+
+  // Game over
+  "gameOver.won": "Tillykke! Du fik {place} plads!",
+  "gameOver.lost": "Spillet er slut! Du fik {place} plads!",
+  "gameOver.lastPlace": "Spillet er slut! Du kom sidst!",
+  "gameOver.title": "Spillet er slut!",
+  "gameOver.placements": "Slutplaceringer:",
+  "gameOver.placementOne": "{place}: {name} (tal: {numbers})",
+  "gameOver.placementMany": "{place}: {name} (tal: {numbers})",
+  "gameOver.watchReplay": "Se genafspilning",
+  "gameOver.hideReplay": "Skjul genafspilning",
+  "gameOver.export": "Eksportér spil (JSON)",
+  "gameOver.analyse": "Analysér mine træk",
+  "gameOver.hideAnalysis": "Skjul analyse",
+  "gameOver.analysing": "Analyserer…",
+  "gameOver.playAgain": "Spil igen",
+  "gameOver.stats": "Se min statistik",
+  "gameOver.seriesGame": "Spil {played} af {count}",
+  "gameOver.nextGame": "Næste spil",
+  "gameOver.newSeries": "Start en ny serie",
+  "analysis.title": "🧮 Analyse af trækkene",
+  "analysis.noMoves": "Du lavede ingen træk i dette spil.",
+  "analysis.move": "#{turn}: du eliminerede {number}",
+  "analysis.moveOdds":
+    " ({chance} chance for at slå nogen ud, forventet placering {finish})",
+  "analysis.optimal": "✅ Lige så godt som ethvert træk, assistenten kunne se.",
+  "analysis.better":
+    "De bedste odds var på {number} ({chance} chance for at slå nogen ud, forventet placering {finish}).",
+  "analysis.hindsightNone":
+    "Set i bakspejlet: intet tal ville have slået nogen ud.",
+  "analysis.hindsight":
+    "Set i bakspejlet: {numbers} ville have slået nogen ud.",
+
+  // Series across rematches
+  "series.title": "🏆 Seriestilling",
+  "series.progress": "Efter spil {played} af {count}",
+  "series.scoring":
+    "Hvert spil giver antallet af spillere minus din placering i point, så sidstepladsen giver ingen point.",
+  "series.rank": "Placering",
+  "series.player": "Spiller",
+  "series.points": "Point",
+  "series.wins": "Sejre",
+  "series.game": "Spil {number}",
+  "series.gameShort": "S{number}",
+  "series.podium": "🏆 Seriens podie",
+  "series.winner": "{names} vandt serien!",
+  "series.and": " og ",
+  "series.pointsShort": "{count} point",
+  "series.export": "Eksportér resultater (CSV)",
+
+  // Replays
+  "replay.title": "Genafspilning",
+  "replay.played": "Spillet {date}",
+  "replay.prev": "◀ Forrige",
+  "replay.next": "Næste ▶",
+  "replay.step": "Træk {step} / {last}",
+  "replay.start": "Før første træk",
+  "replay.final": "Slutplaceringer",
+  "replay.soFar": "Ude indtil videre",
+  "replay.nobody": "Ingen endnu.",
+
+  // Connection badge
+  "connection.connecting": "Forbinder…",
+  "connection.online": "Online",
+  "connection.onlineLatency": "Online · {latency} ms",
+  "connection.reconnecting": "Genopretter forbindelsen…",
+  "connection.failed": "Kan ikke nå serveren",
+  "connection.probing": "måler…",
+  "connection.latency": "{latency} ms",
+  "connection.unreachable": "intet svar",
+  "connection.server": "Server: {name}",
+  "connection.wakingUp":
+    "Serveren er måske ved at vågne, hvilket kan tage op til et minut. Vi bliver ved med at prøve imens.",
+  "connection.choose": "Vælg en server",
+  "connection.fastest": "Hurtigste (automatisk)",
+  "connection.reconnect": "Forbind igen",
+
+  // Screen reader announcements
+  "announce.started": "Spillet er startet.",
+  "announce.yourTurn": "Det er din tur.",
+  "announce.turn": "Det er {name}s tur.",
+  "announce.turnUnknown": "Det er en andens tur.",
+  "announce.gameOver": "Spillet er slut.",
+  "announce.placement": "Spillet er slut. Du fik {place} plads.",
+
+  // Background alerts, shown in the tab title and as system notifications
+  "notify.turn": "Det er din tur!",
+  "notify.eliminated": "Du er ude på {place} plads.",
+  "notify.gameOver": "Spillet er slut.",
+
+  // Settings page
+  "settings.title": "Indstillinger",
+  "settings.notifications": "Notifikationer",
+  "settings.notificationsIntro":
+    "Mens spillet ligger i en fane i baggrunden, tæller fanens titel det, du er gået glip af. Tillader du notifikationer, får du også en systemnotifikation.",
+  "settings.notifyTurn": "Når det er min tur",
+  "settings.notifyEliminated": "Når jeg bliver slået ud",
+  "settings.notifyGameOver": "Når spillet slutter",
+  "settings.allow": "Tillad notifikationer",
+  "settings.allowed": "Notifikationer er tilladt i denne browser.",
+  "settings.blocked":
+    "Denne browser blokerer notifikationer fra spillet, så kun fanens titel ændres. Du kan tillade dem i webstedets indstillinger.",
+  "settings.unsupported":
+    "Denne browser har ikke notifikationer, så kun fanens titel ændres.",
+
+  // Stats page
+  "stats.title": "Min statistik",
+  "stats.back": "Tilbage til spillet",
+  "stats.empty":
+    "Ingen færdige spil endnu. Spil et spil, så dukker dine resultater op her.",
+  "stats.played": "Spil spillet",
+  "stats.average": "Gennemsnitlig placering",
+  "stats.firstPlace": "1. plads",
+  "stats.lastPlace": "Sidsteplads",
+  "stats.trend": "Udvikling",
+  "stats.trendEmpty": "Spil mindst to spil for at se en udvikling.",
+  "stats.trendLabel": "Placeringer over de seneste {count} spil",
+  "stats.trendFirst": "1.",
+  "stats.trendLast": "Sidst",
+  "stats.favourites": "Yndlingstal",
+  "stats.gamesOne": "({count} spil)",
+  "stats.gamesMany": "({count} spil)",
+  "stats.headToHead": "Mod hinanden",
+  "stats.headToHeadEmpty":
+    "Modstandere dukker op her efter {count} spil sammen.",
+  "stats.opponent": "Modstander",
+  "stats.games": "Spil",
+  "stats.ahead": "Foran",
+  "stats.behind": "Bagud",
+  "stats.recent": "Seneste spil",
+  "stats.recentGame":
+    "{place} af {size} · tal {number} · bræt med {board}",
+  "stats.vsBots": " · mod bots",
+  "stats.against": "{date} · mod {names}",
+  "stats.confirmClear": "Slet alle gemte spil?",
+  "stats.clear": "Ryd historikken",
+
+  // Errors, by code
+  "error.lobby-not-found": "Lobbyen findes ikke",
+  "error.invalid-lobby-code": "Lobbykoder består af {length} bogstaver eller tal",
+  "error.lobby-full": "Lobbyen er fuld",
+  "error.lobby-locked": "Lobbyen er låst",
+  "error.banned": "Du er blevet fjernet fra denne lobby",
+  "error.game-in-progress": "Spillet er allerede i gang",
+  "error.name-too-short": "Navnet skal være mindst {min} tegn langt",
+  "error.name-taken": "Navnet er allerede taget i denne lobby",
+  "error.already-playing": "Du spiller allerede i denne lobby",
+  "error.seat-expired": "Din plads i lobbyen er udløbet",
+  "error.not-in-lobby": "Du er ikke i denne lobby",
+  "error.not-leader": "Kun værten kan gøre det",
+  "error.player-not-found": "Spilleren er ikke i denne lobby",
+  "error.cant-kick-self": "Du kan ikke fjerne dig selv",
+  "error.invalid-settings": "De indstillinger er ikke tilladt",
+  "error.game-started": "Spillet er allerede startet",
+  "error.numbers-complete": "Du har allerede valgt dine tal",
+  "error.number-already-picked": "Du har allerede valgt det tal",
+  "error.number-off-board": "Det tal er ikke på brættet",
+  "error.duplicate-number": "Alle valgte de samme tal. Vælg igen.",
+  "error.not-enough-players": "Der skal mindst to spillere til at starte",
+  "error.numbers-missing": "Ikke alle spillere har valgt deres tal",
+  "error.game-not-running": "Spillet er ikke i gang",
+  "error.not-your-turn": "Det er ikke din tur",
+  "error.number-eliminated": "Det tal er allerede elimineret",
+  "error.own-number": "Du kan ikke eliminere dit eget tal",
+  "error.game-not-over": "Spillet er ikke slut endnu",
+  "error.rate-limited": "Du sender beskeder for hurtigt",
+  "error.invalid-request": "Serveren forstod ikke anmodningen",
+  "error.unknown": "Noget gik galt",
+};
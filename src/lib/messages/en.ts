@@ -0,0 +1,432 @@
+/**
+ * The English catalogue, and the source of every message key. Placeholders
+ * in braces, e.g. `{name}`, are filled in by `t()`.
+ */
+export const en = {
+  // Shared across screens
+  "common.back": "Back",
+  "common.close": "Close",
+  "common.start": "Start",
+  "common.mainMenu": "Main Menu",
+  "common.backToMenu": "Back to Main Menu",
+  "common.tryAgain": "Try Again",
+  "common.you": "(You)",
+  "common.language": "Language",
+  "common.dismiss": "Dismiss",
+  "common.numbers": "{count} numbers",
+  "common.players": "{count} players",
+  "common.seconds": "{count} seconds",
+  "common.secondsLeft": "{count} seconds left",
+  "common.highContrast": "◐ High contrast",
+
+  // Main menu and its forms
+  "menu.title": "Welcome to the Game!",
+  "menu.info": "Game Info",
+  "menu.create": "Create Game",
+  "menu.join": "Join Game",
+  "menu.browse": "Browse Games",
+  "menu.watch": "Watch Game",
+  "menu.bots": "Play vs. Bots",
+  "menu.hotSeat": "Pass & Play",
+  "menu.review": "Review a Saved Game",
+  "menu.stats": "My Stats",
+  "menu.settings": "Settings",
+  "menu.namePlaceholder": "Enter your name",
+  "menu.nameLabel": "Your name",
+  "menu.boardSize": "Board Size",
+  "menu.public": "🌐 Public (listed in Browse Games)",
+  "menu.createLobby": "Create Lobby",
+  "menu.botCount": "Bots",
+  "menu.botsOne": "{count} bot",
+  "menu.botsMany": "{count} bots",
+  "menu.difficulty": "Difficulty",
+  "menu.hotSeatIntro": "Share one device and take turns passing it around.",
+  "menu.seatPlaceholder": "Player {number}",
+  "menu.removeSeat": "Remove player {number}",
+  "menu.addSeat": "+ Add Player",
+  "menu.quickMatch": "Quick Match",
+  "menu.joinInvited": "Join Lobby {code}",
+  "menu.codePlaceholder": "Enter lobby code",
+  "menu.codeLabel": "Lobby code",
+  "menu.joinLobby": "Join Lobby",
+  "menu.watchLobby": "Watch Lobby",
+  "menu.justWatch": "Just watch instead",
+  "menu.invalidRecord": "That file is not a valid game record: {reason}",
+  "menu.seatNamesShort": "Names must be at least {min} characters long",
+  "menu.seatNamesTaken": "Every player needs a different name",
+
+  "bots.random": "Random",
+  "bots.cautious": "Cautious",
+  "bots.adversarial": "Adversarial",
+
+  // Player profile
+  "profile.summary": "Look: {avatar} in {color}",
+  "profile.avatar": "Avatar",
+  "profile.color": "Colour",
+  "profile.colorHint":
+    "If someone in the lobby already has your colour, you get a free one.",
+  "profile.color.red": "Red",
+  "profile.color.blue": "Blue",
+  "profile.color.amber": "Amber",
+  "profile.color.purple": "Purple",
+  "profile.color.teal": "Teal",
+  "profile.color.pink": "Pink",
+  "profile.color.lime": "Lime",
+  "profile.color.orange": "Orange",
+  "profile.color.cyan": "Cyan",
+  "profile.color.fuchsia": "Fuchsia",
+
+  // Public lobby browser
+  "browser.loading": "Loading games...",
+  "browser.empty": "No public games right now. Create one or try a quick match!",
+  "browser.hostsGame": "{name}'s game",
+  "browser.summary": "{players}/{max} players · {size} numbers · {rules}",
+  "browser.inProgress": "In progress",
+  "browser.full": "Full",
+  "browser.waiting": "Waiting for players",
+  "browser.join": "Join",
+  "browser.watch": "Watch",
+
+  // Rules
+  "rules.title": "How to Play",
+  "rules.intro": "This is a number elimination game.",
+  "rules.button": "Rules",
+  "rules.summary": "Rules: {rules}",
+  "rules.classic": "Classic rules",
+  "rules.survivorWins": "Last survivor wins",
+  "rules.numbersEach": "{count} numbers each",
+  "rules.neighbours": "Neighbours fall too",
+  "rules.range": "Numbers {first}–{last}",
+  "rules.pickOne": "Everyone secretly picks a number.",
+  "rules.pickMany": "Everyone secretly picks {count} different numbers.",
+  "rules.eliminate":
+    "Players take turns eliminating numbers from the board, but never their own.",
+  "rules.eliminateNeighbours":
+    "Players take turns eliminating a number from the board, but never their own. The numbers directly either side go too, unless they are yours.",
+  "rules.outOne": "When your secret number is eliminated you are out",
+  "rules.outMany": "Once all of your secret numbers are eliminated you are out",
+  "rules.survivorWinsResult":
+    "{out}: the earlier you go, the worse your placement. The last player remaining wins!",
+  "rules.survivorLosesResult":
+    "{out} and safe. The last player remaining loses!",
+  "rules.lastPlayer": "Last Player Remaining",
+  "rules.loses": "Loses (classic)",
+  "rules.wins": "Wins",
+  "rules.secretCount": "Secret Numbers Each",
+  "rules.firstNumber": "First Number",
+  "rules.neighboursOption": "Eliminating a number also removes its neighbours",
+
+  // Waiting on the server
+  "status.creating": "Creating Lobby...",
+  "status.matching": "Finding a Game...",
+  "status.joining": "Joining Lobby...",
+  "status.reconnecting": "Reconnecting…",
+  "status.stalled":
+    "The server hasn't answered yet. If it was asleep, it can take up to a minute to wake up.",
+  "status.protocolError":
+    'Received an unexpected "{event}" message from the server.',
+
+  // Lobby
+  "lobby.code": "Lobby Code:",
+  "lobby.players": "Players in Lobby ({count}/{max})",
+  "lobby.leader": "(Party Leader)",
+  "lobby.makeLeader": "Make Leader",
+  "lobby.kick": "Kick",
+  "lobby.confirmKick": "Remove {name} from the lobby?",
+  "lobby.startGame": "Start Game",
+  "lobby.pickOne": "Select Your Number",
+  "lobby.pickMany": "Select Your Numbers ({picked}/{count})",
+  "lobby.repickOne": "Choose a Different Number",
+  "lobby.repickMany": "Choose Different Numbers",
+  "lobby.pickGrid": "Numbers to pick from",
+  "lobby.picked": "{number}, picked",
+  "lobby.watching": "You are watching this lobby.",
+  "lobby.boardLater": "The board appears here when the game starts.",
+  "lobby.waitingOne": "Waiting for other players to select their number...",
+  "lobby.waitingMany": "Waiting for other players to select their numbers...",
+  "lobby.yourNumber": "Your number: {numbers}",
+  "lobby.yourNumbers": "Your numbers: {numbers}",
+  "lobby.spectators": "Spectators ({count})",
+
+  // Host settings
+  "host.title": "Host Settings",
+  "host.maxPlayers": "Max Players",
+  "host.turnTimer": "Turn Timer",
+  "host.timerOff": "Off",
+  "host.onTimeout": "When Time Runs Out",
+  "host.timeoutRandom": "Eliminate a random number",
+  "host.timeoutSkip": "Skip the turn",
+  "host.lock": "🔒 Lock lobby (no new players)",
+  "host.assistant": "🧮 Allow the risk assistant",
+  "host.summary": "Numbers {first}–{last} · up to {max} players · ⏱ {timer}",
+  "host.noTimer": "no turn timer",
+  "host.timerRandom":
+    "{seconds} seconds per turn, then a random number is eliminated",
+  "host.timerSkip": "{seconds} seconds per turn, then the turn is skipped",
+  "host.public": " · 🌐 Public",
+  "host.locked": " · 🔒 Locked",
+  "host.noAssistant": " · 🧮 No assistant",
+  "host.series": "Series",
+  "host.seriesOff": "Single games",
+  "host.seriesLength": "Series of {count} games",
+  "host.tieBreak": "Ties on Points",
+  "host.tieBreakWins": "Most wins goes first",
+  "host.tieBreakLatest": "Better finish in the latest game goes first",
+  "host.tieBreakShared": "Tied players share the place",
+  "host.seriesSummary": " · 🏆 Series of {count} games",
+
+  // Invites
+  "invite.copy": "Copy invite link",
+  "invite.copied": "Copied!",
+  "invite.copyFailed": "Couldn't copy the link; here it is to copy by hand:",
+  "invite.share": "Share",
+  "invite.qr": "QR code",
+  "invite.hideQr": "Hide QR code",
+  "invite.qrLabel": "QR code for lobby {code}",
+  "invite.qrFailed": "The QR code could not be drawn.",
+  "invite.shareTitle": "Join my game",
+  "invite.shareText": "Join my lobby {code}",
+
+  // Chat
+  "chat.title": "Chat",
+  "chat.empty": "No messages yet.",
+  "chat.react": "React with {emoji}",
+  "chat.placeholder": "Say something...",
+  "chat.send": "Send",
+  "chat.mutePlayers": "Mute players",
+  "chat.mute": "🔈 Mute",
+  "chat.unmute": "🔇 Unmute",
+
+  // The game board
+  "board.currentTurn": "Current Turn:",
+  "board.yourTurn": "▶ Your turn: choose a number to eliminate",
+  "board.hurry": "Hurry up! Pick a number before time runs out.",
+  "board.spectating": "👀 You are spectating",
+  "board.title": "Game Board",
+  "board.label": "Game board",
+  "board.lastMove": "Last move: {move}",
+  "board.eliminatedBy": "Eliminated by {name}",
+  "board.tileEliminated": "{number}, eliminated",
+  "board.tileEliminatedBy": "{number}, eliminated by {name}",
+  "board.tileMine": "your number",
+  "board.tileChance": "{chance} knockout chance",
+  "board.tileSuggested": "suggested",
+  "board.players": "Players",
+  "board.knockedOut":
+    "{name} got {place} place! Their number was {number}.",
+  "board.timedOut": "{name} ran out of time!",
+  "board.timeoutRandom": "{number} was eliminated at random.",
+  "board.timeoutSkip": "Their turn was skipped.",
+  "board.won": "Won - {place} Place",
+  "board.out": "Out - {place} Place",
+  "board.turnBadge": "Current Turn",
+  "board.gridHelp":
+    "Use the arrow keys to move between numbers, type a number to jump to it, and press Enter to choose it.",
+
+  // Moves, as in the move log
+  "move.history": "Move History",
+  "move.none": "No moves yet.",
+  "move.skipped": "{name} ran out of time and was skipped",
+  "move.random": "{name} ran out of time; {number} was eliminated at random",
+  "move.eliminated": "{name} eliminated {number}",
+  "move.neighbours": " ({numbers} went too)",
+  "move.and": " and ",
+  "move.knockout": "{name} is out ({place} place)",
+
+  // Risk assistant
+  "assistant.toggleOn": "🧮 Assistant on",
+  "assistant.toggleOff": "🧮 Assistant off",
+  "assistant.notYourTurn":
+    "🧮 The assistant weighs up your options on your turn.",
+  "assistant.nothingLeft": "🧮 There is nothing left for you to pick.",
+  "assistant.thinking": "🧮 Weighing up your options…",
+  "assistant.estimate":
+    "🧮 Eliminating {number}{suggested}: {chance} chance of knocking someone out, expected finish {place}",
+  "assistant.suggested": " ⭐ (suggested)",
+  "assistant.odds": "{place}: {chance}",
+  "assistant.disclaimer":
+    "Estimated from random play-outs; opponents' numbers are guessed, never peeked at.",
+
+  // Pass and play
+  "handoff.timedOut": "{name} ran out of time!",
+  "handoff.title": "Hand the device to {name}",
+  "handoff.pickOne":
+    "Everyone else, look away while they pick their secret number.",
+  "handoff.pickMany":
+    "Everyone else, look away while they pick their secret numbers.",
+  "handoff.turn": "It's their turn. Everyone else, no peeking at the board!",
+  "handoff.ready": "I'm {name}, show me",
+  "handoff.quit": "Quit to Main Menu",
+
+  // Game over
+  "gameOver.won": "Congratulations! You got {place} place!",
+  "gameOver.lost": "Game Over! You got {place} place!",
+  "gameOver.lastPlace": "Game Over! You got last place!",
+  "gameOver.title": "Game Over!",
+  "gameOver.placements": "Final Placements:",
+  "gameOver.placementOne": "{place}: {name} (number: {numbers})",
+  "gameOver.placementMany": "{place}: {name} (numbers: {numbers})",
+  "gameOver.watchReplay": "Watch Replay",
+  "gameOver.hideReplay": "Hide Replay",
+  "gameOver.export": "Export Game (JSON)",
+  "gameOver.analyse": "Analyse My Moves",
+  "gameOver.hideAnalysis": "Hide Analysis",
+  "gameOver.analysing": "Analysing…",
+  "gameOver.playAgain": "Play Again",
+  "gameOver.stats": "View My Stats",
+  "gameOver.seriesGame": "Game {played} of {count}",
+  "gameOver.nextGame": "Next Game",
+  "gameOver.newSeries": "Start a New Series",
+  "analysis.title": "🧮 Move Analysis",
+  "analysis.noMoves": "You made no moves this game.",
+  "analysis.move": "#{turn}: you eliminated {number}",
+  "analysis.moveOdds": " ({chance} knockout chance, expected finish {finish})",
+  "analysis.optimal": "✅ As good as any move the assistant could see.",
+  "analysis.better":
+    "Best odds were on {number} ({chance} knockout chance, expected finish {finish}).",
+  "analysis.hindsightNone":
+    "In hindsight: no number would have knocked anyone out.",
+  "analysis.hindsight":
+    "In hindsight: {numbers} would have knocked someone out.",
+
+  // Series across rematches
+  "series.title": "🏆 Series Standings",
+  "series.progress": "After game {played} of {count}",
+  "series.scoring":
+    "Each game scores the number of players minus your placement, so last place scores nothing.",
+  "series.rank": "Rank",
+  "series.player": "Player",
+  "series.points": "Points",
+  "series.wins": "Wins",
+  "series.game": "Game {number}",
+  "series.gameShort": "G{number}",
+  "series.podium": "🏆 Series Podium",
+  "series.winner": "{names} won the series!",
+  "series.and": " & ",
+  "series.pointsShort": "{count} pts",
+  "series.export": "Export Results (CSV)",
+
+  // Replays
+  "replay.title": "Game Replay",
+  "replay.played": "Played {date}",
+  "replay.prev": "◀ Prev",
+  "replay.next": "Next ▶",
+  "replay.step": "Move {step} / {last}",
+  "replay.start": "Before the first move",
+  "replay.final": "Final Placements",
+  "replay.soFar": "Out So Far",
+  "replay.nobody": "Nobody yet.",
+
+  // Connection badge
+  "connection.connecting": "Connecting…",
+  "connection.online": "Online",
+  "connection.onlineLatency": "Online · {latency} ms",
+  "connection.reconnecting": "Reconnecting…",
+  "connection.failed": "Can't reach server",
+  "connection.probing": "measuring…",
+  "connection.latency": "{latency} ms",
+  "connection.unreachable": "no answer",
+  "connection.server": "Server: {name}",
+  "connection.wakingUp":
+    "The server may be waking up, which can take up to a minute. We keep trying in the meantime.",
+  "connection.choose": "Choose a server",
+  "connection.fastest": "Fastest (automatic)",
+  "connection.reconnect": "Reconnect",
+
+  // Screen reader announcements
+  "announce.started": "The game has started.",
+  "announce.yourTurn": "It's your turn.",
+  "announce.turn": "It's {name}'s turn.",
+  "announce.turnUnknown": "It's someone else's turn.",
+  "announce.gameOver": "Game over.",
+  "announce.placement": "Game over. You got {place} place.",
+
+  // Background alerts, shown in the tab title and as system notifications
+  "notify.turn": "It's your turn!",
+  "notify.eliminated": "You're out in {place} place.",
+  "notify.gameOver": "The game is over.",
+
+  // Settings page
+  "settings.title": "Settings",
+  "settings.notifications": "Notifications",
+  "settings.notificationsIntro":
+    "While the game is in a background tab, the tab title counts what you missed. With notifications allowed you also get a system notification.",
+  "settings.notifyTurn": "When it's my turn",
+  "settings.notifyEliminated": "When I'm knocked out",
+  "settings.notifyGameOver": "When the game ends",
+  "settings.allow": "Allow notifications",
+  "settings.allowed": "Notifications are allowed in this browser.",
+  "settings.blocked":
+    "This browser blocks notifications for the game, so only the tab title changes. You can allow them in the site settings.",
+  "settings.unsupported":
+    "This browser has no notifications, so only the tab title changes.",
+
+  // Stats page
+  "stats.title": "My Stats",
+  "stats.back": "Back to Game",
+  "stats.empty":
+    "No finished games yet. Play a game and your results show up here.",
+  "stats.played": "Games Played",
+  "stats.average": "Average Placement",
+  "stats.firstPlace": "1st Place",
+  "stats.lastPlace": "Last Place",
+  "stats.trend": "Trend",
+  "stats.trendEmpty": "Play at least two games to see a trend.",
+  "stats.trendLabel": "Placement trend over the last {count} games",
+  "stats.trendFirst": "1st",
+  "stats.trendLast": "Last",
+  "stats.favourites": "Favourite Numbers",
+  "stats.gamesOne": "({count} game)",
+  "stats.gamesMany": "({count} games)",
+  "stats.headToHead": "Head-to-Head",
+  "stats.headToHeadEmpty":
+    "Opponents show up here after {count} games together.",
+  "stats.opponent": "Opponent",
+  "stats.games": "Games",
+  "stats.ahead": "Ahead",
+  "stats.behind": "Behind",
+  "stats.recent": "Recent Games",
+  "stats.recentGame": "{place} of {size} · number {number} · board {board}",
+  "stats.vsBots": " · vs. bots",
+  "stats.against": "{date} · against {names}",
+  "stats.confirmClear": "Delete all recorded games?",
+  "stats.clear": "Clear History",
+
+  // Errors, by code
+  "error.lobby-not-found": "Lobby not found",
+  "error.invalid-lobby-code": "Lobby codes are {length} letters or numbers",
+  "error.lobby-full": "Lobby is full",
+  "error.lobby-locked": "This lobby is locked",
+  "error.banned": "You were removed from this lobby",
+  "error.game-in-progress": "Game already in progress",
+  "error.name-too-short": "Name must be at least {min} characters long",
+  "error.name-taken": "Name is already taken in this lobby",
+  "error.already-playing": "You are already playing in this lobby",
+  "error.seat-expired": "Your seat in this lobby has expired",
+  "error.not-in-lobby": "You are not in this lobby",
+  "error.not-leader": "Only the party leader can do that",
+  "error.player-not-found": "That player is not in this lobby",
+  "error.cant-kick-self": "You can't remove yourself",
+  "error.invalid-settings": "Those settings aren't allowed",
+  "error.game-started": "Game already started",
+  "error.numbers-complete": "You have already chosen your numbers",
+  "error.number-already-picked": "You have already picked that number",
+  "error.number-off-board": "That number is not on the board",
+  "error.duplicate-number":
+    "Everyone chose the same numbers. Pick again.",
+  "error.not-enough-players": "At least two players are needed to start",
+  "error.numbers-missing": "Not all players have chosen their numbers",
+  "error.game-not-running": "The game is not running",
+  "error.not-your-turn": "It's not your turn",
+  "error.number-eliminated": "That number has already been eliminated",
+  "error.own-number": "You can't eliminate your own number",
+  "error.game-not-over": "The game is not over yet",
+  "error.rate-limited": "You are sending messages too quickly",
+  "error.invalid-request": "The server didn't understand that request",
+  "error.unknown": "Something went wrong",
+};
+
+export type MessageKey = keyof typeof en;
+
+/** A complete catalogue; every locale must translate every key. */
+export type Messages = Record<MessageKey, string>;
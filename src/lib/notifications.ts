@@ -0,0 +1,65 @@
+import { getPlacementText } from "./format";
+import { findMe, GameState, isMyTurn } from "./gameReducer";
+import type { Translator } from "./i18n";
+import type { NotifyEvent } from "./settings";
+
+export interface GameAlert {
+  event: NotifyEvent;
+  text: string;
+}
+
+/**
+ * What to alert the player to after the state went from `prev` to `next`;
+ * null when nothing happened to them. When several things happen at once,
+ * e.g. the last knockout ends the game, only the biggest one counts.
+ */
+export function gameAlert(
+  prev: GameState,
+  next: GameState,
+  i18n: Translator
+): GameAlert | null {
+  const { t, locale } = i18n;
+  // Everyone playing on a shared device is already looking at it
+  if (next.mode === "hotseat" || next.role !== "player") return null;
+  if (next.phase === "gameOver" && prev.phase !== "gameOver") {
+    return { event: "gameOver", text: t("notify.gameOver") };
+  }
+  const me = findMe(next);
+  if (me?.isEliminated && !findMe(prev)?.isEliminated) {
+    return {
+      event: "eliminated",
+      text: t("notify.eliminated", {
+        place: getPlacementText(me.placement ?? 0, locale),
+      }),
+    };
+  }
+  if (isMyTurn(next) && !isMyTurn(prev)) {
+    return { event: "turn", text: t("notify.turn") };
+  }
+  return null;
+}
+
+/** Whether this browser can show system notifications at all. */
+export function canNotify() {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/**
+ * Shows `text` as a system notification if the player allowed them. Goes
+ * through the service worker where there is one, since mobile browsers
+ * refuse notifications created by the page itself.
+ */
+export async function showNotification(text: string, title: string) {
+  if (!canNotify() || Notification.permission !== "granted") return;
+  const options = { body: text, icon: "/icon-192.png", tag: "streg-game" };
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, options);
+      return;
+    }
+    new Notification(title, options);
+  } catch {
+    // Blocked by the browser after all; the tab title still shows it
+  }
+}
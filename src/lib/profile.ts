@@ -0,0 +1,83 @@
+const STORAGE_KEY = "streg.profile";
+
+export const AVATARS = [
+  "🦊",
+  "🐼",
+  "🐸",
+  "🦉",
+  "🐙",
+  "🦄",
+  "🐢",
+  "🐝",
+  "🐧",
+  "🦁",
+  "🐳",
+  "🌵",
+];
+
+/** Bots play under their own avatar, which players can't pick. */
+export const BOT_AVATAR = "🤖";
+
+/** One colour per seat, enough for a full lobby. */
+export const PROFILE_COLORS = [
+  "red",
+  "blue",
+  "amber",
+  "purple",
+  "teal",
+  "pink",
+  "lime",
+  "orange",
+  "cyan",
+  "fuchsia",
+] as const;
+export type ProfileColor = (typeof PROFILE_COLORS)[number];
+
+/** How the player appears to others, remembered in this browser. */
+export interface Profile {
+  name: string;
+  avatar: string;
+  color: ProfileColor;
+}
+
+export const defaultProfile: Profile = {
+  name: "",
+  avatar: AVATARS[0],
+  color: PROFILE_COLORS[0],
+};
+
+export function isProfileColor(value: unknown): value is ProfileColor {
+  return PROFILE_COLORS.some((color) => color === value);
+}
+
+export function loadProfile(): Profile {
+  if (typeof window === "undefined") return defaultProfile;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaultProfile;
+    const parsed = JSON.parse(raw);
+    return {
+      name: typeof parsed?.name === "string" ? parsed.name : "",
+      avatar: AVATARS.includes(parsed?.avatar)
+        ? parsed.avatar
+        : defaultProfile.avatar,
+      color: isProfileColor(parsed?.color)
+        ? parsed.color
+        : defaultProfile.color,
+    };
+  } catch {
+    // Corrupt or inaccessible storage; fall back to the defaults
+    return defaultProfile;
+  }
+}
+
+/** Stores `changes` on top of the current profile and returns the result. */
+export function saveProfile(changes: Partial<Profile>): Profile {
+  const profile = { ...loadProfile(), ...changes };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch {
+    // Storage may be full or disabled (private mode); the change lasts this visit
+  }
+  return profile;
+}
@@ -0,0 +1,829 @@
+import type { Socket } from "socket.io-client";
+
+export interface Player {
+  name: string;
+  /**
+   * Stays with the seat across reconnects, unlike `id`, so it is what tells
+   * players apart in results and moves.
+   */
+  seatId: string;
+  /** Emoji from the player's profile; null when they haven't picked one. */
+  avatar: string | null;
+  /** Colour name from the player's profile; unique within the lobby. */
+  color: string | null;
+  /** The first secret number, kept for clients that only know one. */
+  selectedNumber: number | null;
+  selectedNumbers: number[];
+  isEliminated: boolean;
+  placement: number | null;
+  id: string;
+}
+
+/** Someone watching a lobby without taking part. */
+export interface Spectator {
+  id: string;
+  name: string;
+}
+
+export interface Placement {
+  name: string;
+  seatId: string;
+  number: number;
+  /** All of the player's secret numbers when the variant gives them several. */
+  numbers: number[];
+  placement: number;
+}
+
+/** The rule set a lobby is created with. */
+export interface GameVariant {
+  /** In the classic game the last player left loses; here they may win instead. */
+  lastSurvivor: "loses" | "wins";
+  /** Secret numbers per player; a player is out once all of them are gone. */
+  secretCount: number;
+  /** Eliminating a number also clears the numbers either side of it. */
+  neighbours: boolean;
+  /** Lowest number on the board, which holds `boardSize` numbers from here. */
+  rangeStart: number;
+}
+
+export const CLASSIC_VARIANT: GameVariant = {
+  lastSurvivor: "loses",
+  secretCount: 1,
+  neighbours: false,
+  rangeStart: 1,
+};
+
+export interface GameOverInfo {
+  placements: Placement[];
+}
+
+/** One turn of a game, as recorded by the server. */
+export interface Move {
+  turn: number;
+  playerName: string;
+  seatId: string;
+  /** The eliminated number, null when the turn was skipped. */
+  number: number | null;
+  /** Every number the move removed, neighbours included. */
+  cleared: number[];
+  timedOut: boolean;
+  /** Players whose number this move hit, with the placement they got. */
+  knockedOut: Placement[];
+}
+
+/** A finished game as exported to and imported from a JSON file. */
+export interface GameRecord {
+  version: number;
+  boardSize: number;
+  variant: GameVariant;
+  playedAt: string;
+  moves: Move[];
+  placements: Placement[];
+}
+
+export const GAME_RECORD_VERSION = 1;
+
+export interface PlayerElimination {
+  playerName: string;
+  number: number;
+  placement: number;
+  totalPlayers: number;
+}
+
+export const TIE_BREAKS = ["wins", "latest", "shared"] as const;
+
+/**
+ * How players level on points are ordered in a series: by games won, by the
+ * better finish in the latest game they didn't tie, or not at all.
+ */
+export type TieBreak = (typeof TIE_BREAKS)[number];
+
+/** Lobby options the party leader controls before the game starts. */
+export interface LobbySettings {
+  leaderId: string | null;
+  boardSize: number;
+  maxPlayers: number;
+  variant: GameVariant;
+  /** A locked lobby accepts no new players; seated ones can still rejoin. */
+  locked: boolean;
+  /** Public lobbies show up in the lobby browser and in quick matches. */
+  isPublic: boolean;
+  /** Whether players may turn on the risk assistant during the game. */
+  assistant: boolean;
+  /** Games in a series scored across rematches; 1 plays single games. */
+  seriesLength: number;
+  tieBreak: TieBreak;
+}
+
+export type LobbySettingsUpdate = Partial<
+  Pick<
+    LobbySettings,
+    | "boardSize"
+    | "maxPlayers"
+    | "locked"
+    | "isPublic"
+    | "assistant"
+    | "seriesLength"
+    | "tieBreak"
+  >
+>;
+
+export interface CreateLobbyRequest {
+  boardSize: number;
+  variant?: GameVariant;
+  isPublic?: boolean;
+}
+
+export interface JoinLobbyRequest {
+  code: string;
+  playerName: string;
+  token: string;
+  /** From the player's profile; older servers ignore both. */
+  avatar?: string;
+  color?: string;
+}
+
+/** A public lobby as listed in the lobby browser. */
+export interface LobbySummary {
+  code: string;
+  hostName: string;
+  players: number;
+  maxPlayers: number;
+  boardSize: number;
+  variant: GameVariant;
+  inProgress: boolean;
+}
+
+export type TurnTimeoutAction = "random" | "skip";
+
+/** Per-turn time limit chosen by the party leader; `seconds: null` means off. */
+export interface TurnTimerSettings {
+  seconds: number | null;
+  onTimeout: TurnTimeoutAction;
+}
+
+export interface TurnTimedOutPayload {
+  playerName: string;
+  action: TurnTimeoutAction;
+  /** The number eliminated on the player's behalf, null when skipped. */
+  number: number | null;
+}
+
+export interface GameStartedPayload {
+  currentTurn: string;
+  currentPlayerName: string;
+  numbers: number[];
+  /** Milliseconds left for the current turn, null without a time limit. */
+  turnTimeLeft: number | null;
+}
+
+export interface NumberEliminatedPayload {
+  number: number;
+  remainingNumbers: number[];
+  currentTurn: string;
+  currentPlayerName: string;
+  turnTimeLeft: number | null;
+}
+
+export interface PersonalResult {
+  placement: number;
+  totalPlayers: number;
+  number: number;
+}
+
+export interface LobbyJoinedPayload {
+  boardSize: number;
+}
+
+export interface LobbyResetPayload {
+  players: Player[];
+  numbers: number[];
+  boardSize: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  senderId: string;
+  /** The sender's seat, which outlasts their reconnects; null for spectators. */
+  senderSeatId: string | null;
+  senderName: string;
+  text: string;
+  sentAt: number;
+}
+
+export interface ReactionPayload {
+  senderId: string;
+  emoji: string;
+}
+
+/** Everything needed to rebuild the lobby or game screen after a rejoin. */
+export interface SessionSnapshot {
+  code: string;
+  boardSize: number;
+  players: Player[];
+  numbers: number[];
+  gameStarted: boolean;
+  currentTurn: string | null;
+  currentPlayerName: string | null;
+  gameOver: GameOverInfo | null;
+  spectators: Spectator[];
+  turnTimer: TurnTimerSettings;
+  turnTimeLeft: number | null;
+  moves: Move[];
+  settings: LobbySettings | null;
+  /** Results of the games played so far in the current series. */
+  series: GameOverInfo[];
+}
+
+/** Everything the server can refuse a request with; see errors.ts for how each is shown. */
+export const ERROR_CODES = [
+  "lobby-not-found",
+  "invalid-lobby-code",
+  "lobby-full",
+  "lobby-locked",
+  "banned",
+  "game-in-progress",
+  "name-too-short",
+  "name-taken",
+  "already-playing",
+  "seat-expired",
+  "not-in-lobby",
+  "not-leader",
+  "player-not-found",
+  "cant-kick-self",
+  "invalid-settings",
+  "game-started",
+  "numbers-complete",
+  "number-already-picked",
+  "number-off-board",
+  "duplicate-number",
+  "not-enough-players",
+  "numbers-missing",
+  "game-not-running",
+  "not-your-turn",
+  "number-eliminated",
+  "own-number",
+  "game-not-over",
+  "rate-limited",
+  "invalid-request",
+  "unknown",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/** A refused request. The message is for people; act on the code. */
+export interface GameError {
+  code: ErrorCode;
+  message: string;
+}
+
+export interface ServerToClientEvents {
+  playerList: (players: Player[]) => void;
+  gameStarted: (data: GameStartedPayload) => void;
+  numberEliminated: (data: NumberEliminatedPayload) => void;
+  error: (error: GameError) => void;
+  youWon: (data: PersonalResult) => void;
+  youLost: (data: PersonalResult) => void;
+  playerEliminated: (info: PlayerElimination) => void;
+  gameOver: (info: GameOverInfo) => void;
+  lobbyCreated: (code: string) => void;
+  lobbyJoined: (data: LobbyJoinedPayload) => void;
+  resetNumbers: () => void;
+  lobbyReset: (data: LobbyResetPayload) => void;
+  sessionRestored: (snapshot: SessionSnapshot) => void;
+  rejoinFailed: (reason: string) => void;
+  spectatorJoined: (snapshot: SessionSnapshot) => void;
+  spectatorList: (spectators: Spectator[]) => void;
+  chatMessage: (message: ChatMessage) => void;
+  chatHistory: (messages: ChatMessage[]) => void;
+  reaction: (data: ReactionPayload) => void;
+  turnTimerChanged: (settings: TurnTimerSettings) => void;
+  turnTimedOut: (data: TurnTimedOutPayload) => void;
+  moveRecorded: (move: Move) => void;
+  lobbySettings: (settings: LobbySettings) => void;
+  seriesResults: (games: GameOverInfo[]) => void;
+  kicked: (reason: string) => void;
+  lobbyList: (lobbies: LobbySummary[]) => void;
+  matchFound: (code: string) => void;
+}
+
+export interface ClientToServerEvents {
+  createLobby: (data: CreateLobbyRequest) => void;
+  joinLobby: (data: JoinLobbyRequest) => void;
+  rejoinLobby: (data: { code: string; token: string }) => void;
+  spectateLobby: (data: { code: string; spectatorName: string }) => void;
+  selectNumber: (number: number) => void;
+  startGame: () => void;
+  eliminateNumber: (number: number) => void;
+  playerReadyForReplay: () => void;
+  leaveLobby: () => void;
+  sendChatMessage: (text: string) => void;
+  sendReaction: (emoji: string) => void;
+  setTurnTimer: (settings: TurnTimerSettings) => void;
+  updateLobbySettings: (changes: LobbySettingsUpdate) => void;
+  kickPlayer: (playerId: string) => void;
+  transferLeadership: (playerId: string) => void;
+  /** Starts live lobbyList updates; stopBrowsing ends them. */
+  browseLobbies: () => void;
+  stopBrowsing: () => void;
+  /** Finds an open public lobby, or creates one, and answers with matchFound. */
+  quickMatch: (data: { token: string }) => void;
+  /** Answered by calling `ack` straight away, to measure the round trip. */
+  heartbeat: (ack: () => void) => void;
+}
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export type ServerEvent = keyof ServerToClientEvents;
+
+/**
+ * The part of a connection the UI sends through. A GameSocket satisfies it,
+ * and so do games that run entirely in the browser.
+ */
+export interface GameConnection {
+  readonly id: string | undefined;
+  emit<E extends keyof ClientToServerEvents>(
+    event: E,
+    ...args: Parameters<ClientToServerEvents[E]>
+  ): unknown;
+}
+
+/**
+ * Raised when a payload does not match the shape its receiver expects, e.g.
+ * after a field was renamed on the backend, or from a misbehaving client.
+ */
+export class ProtocolError extends Error {
+  constructor(
+    readonly event: string,
+    readonly path: string,
+    readonly expected: string,
+    readonly payload: unknown
+  ) {
+    super(`Invalid "${event}" payload: expected ${expected} at ${path}`);
+    this.name = "ProtocolError";
+  }
+}
+
+type Check<T> = (value: unknown, path: string) => T;
+
+// Thrown by the checks below and rewrapped with the event name in parseServerEvent().
+class Mismatch {
+  constructor(readonly path: string, readonly expected: string) {}
+}
+
+const num: Check<number> = (value, path) => {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw new Mismatch(path, "number");
+  }
+  return value;
+};
+
+const str: Check<string> = (value, path) => {
+  if (typeof value !== "string") throw new Mismatch(path, "string");
+  return value;
+};
+
+const bool: Check<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw new Mismatch(path, "boolean");
+  return value;
+};
+
+const nullable =
+  <T>(check: Check<T>): Check<T | null> =>
+  (value, path) =>
+    value === null || value === undefined ? null : check(value, path);
+
+const oneOf =
+  <T extends string>(...values: T[]): Check<T> =>
+  (value, path) => {
+    if (!values.includes(value as T)) {
+      throw new Mismatch(path, values.map((v) => `"${v}"`).join(" | "));
+    }
+    return value as T;
+  };
+
+const withDefault =
+  <T>(check: Check<T>, fallback: T): Check<T> =>
+  (value, path) =>
+    value === undefined ? fallback : check(value, path);
+
+const arrayOf =
+  <T>(check: Check<T>): Check<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw new Mismatch(path, "array");
+    return value.map((item, i) => check(item, `${path}[${i}]`));
+  };
+
+const object =
+  <T>(shape: { [K in keyof T]: Check<T[K]> }): Check<T> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Mismatch(path, "object");
+    }
+    const record = value as Record<string, unknown>;
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key](record[key], `${path}.${key}`);
+    }
+    return result;
+  };
+
+// Older servers have no seat ids; the name is the closest thing they offer
+const withSeatId =
+  <T extends { seatId: string }>(
+    check: Check<T>,
+    nameOf: (value: T) => string
+  ): Check<T> =>
+  (value, path) => {
+    const parsed = check(value, path);
+    if (parsed.seatId) return parsed;
+    return { ...parsed, seatId: `name:${nameOf(parsed)}` };
+  };
+
+const player = withSeatId(
+  object<Player>({
+    name: str,
+    seatId: withDefault(str, ""),
+    avatar: withDefault(nullable(str), null),
+    color: withDefault(nullable(str), null),
+    selectedNumber: nullable(num),
+    // Older servers only know a single secret number
+    selectedNumbers: withDefault(arrayOf(num), []),
+    isEliminated: bool,
+    placement: nullable(num),
+    id: str,
+  }),
+  (p) => p.name
+);
+
+const spectator = object<Spectator>({ name: str, id: str });
+
+const chatMessage = object<ChatMessage>({
+  id: str,
+  senderId: str,
+  senderSeatId: withDefault(nullable(str), null),
+  senderName: str,
+  text: str,
+  sentAt: num,
+});
+
+const placement = withSeatId(
+  object<Placement>({
+    name: str,
+    seatId: withDefault(str, ""),
+    number: num,
+    numbers: withDefault(arrayOf(num), []),
+    placement: num,
+  }),
+  (p) => p.name
+);
+
+const gameVariant = object<GameVariant>({
+  lastSurvivor: oneOf("loses", "wins"),
+  secretCount: num,
+  neighbours: bool,
+  rangeStart: num,
+});
+
+const gameOverInfo = object<GameOverInfo>({ placements: arrayOf(placement) });
+
+const move = withSeatId(
+  object<Move>({
+    turn: num,
+    playerName: str,
+    seatId: withDefault(str, ""),
+    number: nullable(num),
+    cleared: withDefault(arrayOf(num), []),
+    timedOut: bool,
+    knockedOut: arrayOf(placement),
+  }),
+  (m) => m.playerName
+);
+
+const gameRecord = object<GameRecord>({
+  version: num,
+  boardSize: num,
+  variant: withDefault(gameVariant, CLASSIC_VARIANT),
+  playedAt: str,
+  moves: arrayOf(move),
+  placements: arrayOf(placement),
+});
+
+const personalResult = object<PersonalResult>({
+  placement: num,
+  totalPlayers: num,
+  number: num,
+});
+
+const lobbySettings = object<LobbySettings>({
+  leaderId: nullable(str),
+  boardSize: num,
+  maxPlayers: num,
+  variant: withDefault(gameVariant, CLASSIC_VARIANT),
+  locked: bool,
+  isPublic: withDefault(bool, false),
+  assistant: withDefault(bool, true),
+  // Older servers only play single games
+  seriesLength: withDefault(num, 1),
+  tieBreak: withDefault(oneOf<TieBreak>(...TIE_BREAKS), "wins"),
+});
+
+const lobbySummary = object<LobbySummary>({
+  code: str,
+  hostName: str,
+  players: num,
+  maxPlayers: num,
+  boardSize: num,
+  variant: withDefault(gameVariant, CLASSIC_VARIANT),
+  inProgress: bool,
+});
+
+const timeoutAction = oneOf<TurnTimeoutAction>("random", "skip");
+
+const turnTimerSettings = object<TurnTimerSettings>({
+  seconds: nullable(num),
+  onTimeout: timeoutAction,
+});
+
+// Servers without turn timers leave these out
+const turnTimeLeft = withDefault(nullable(num), null);
+
+const sessionSnapshot = object<SessionSnapshot>({
+  code: str,
+  boardSize: num,
+  players: arrayOf(player),
+  numbers: arrayOf(num),
+  gameStarted: bool,
+  currentTurn: nullable(str),
+  currentPlayerName: nullable(str),
+  gameOver: nullable(gameOverInfo),
+  // Older servers do not know about spectators
+  spectators: withDefault(arrayOf(spectator), []),
+  turnTimer: withDefault(turnTimerSettings, { seconds: null, onTimeout: "random" }),
+  turnTimeLeft,
+  moves: withDefault(arrayOf(move), []),
+  // Older servers treat the first player as leader and have no settings
+  settings: withDefault(nullable(lobbySettings), null),
+  series: withDefault(arrayOf(gameOverInfo), []),
+});
+
+type Args<E extends ServerEvent> = Parameters<ServerToClientEvents[E]>;
+
+// Older servers send a bare message, and newer ones may use codes this client
+// doesn't know yet; both are treated as "unknown"
+const gameError: Check<GameError> = (value, path) => {
+  if (typeof value === "string") return { code: "unknown", message: value };
+  const { code, message } = object<{ code: string; message: string }>({
+    code: str,
+    message: str,
+  })(value, path);
+  const known = (ERROR_CODES as readonly string[]).includes(code);
+  return { code: known ? (code as ErrorCode) : "unknown", message };
+};
+
+const one =
+  <T>(check: Check<T>) =>
+  (args: unknown[]): [T] =>
+    [check(args[0], "payload")];
+
+const validators: { [E in ServerEvent]: (args: unknown[]) => Args<E> } = {
+  playerList: one(arrayOf(player)),
+  gameStarted: one(
+    object<GameStartedPayload>({
+      currentTurn: str,
+      currentPlayerName: str,
+      numbers: arrayOf(num),
+      turnTimeLeft,
+    })
+  ),
+  numberEliminated: one(
+    object<NumberEliminatedPayload>({
+      number: num,
+      remainingNumbers: arrayOf(num),
+      currentTurn: str,
+      currentPlayerName: str,
+      turnTimeLeft,
+    })
+  ),
+  error: one(gameError),
+  youWon: one(personalResult),
+  youLost: one(personalResult),
+  playerEliminated: one(
+    object<PlayerElimination>({
+      playerName: str,
+      number: num,
+      placement: num,
+      totalPlayers: num,
+    })
+  ),
+  gameOver: one(gameOverInfo),
+  lobbyCreated: one(str),
+  lobbyJoined: one(object<LobbyJoinedPayload>({ boardSize: num })),
+  resetNumbers: () => [],
+  lobbyReset: one(
+    object<LobbyResetPayload>({
+      players: arrayOf(player),
+      numbers: arrayOf(num),
+      boardSize: num,
+    })
+  ),
+  sessionRestored: one(sessionSnapshot),
+  rejoinFailed: one(str),
+  spectatorJoined: one(sessionSnapshot),
+  spectatorList: one(arrayOf(spectator)),
+  chatMessage: one(chatMessage),
+  chatHistory: one(arrayOf(chatMessage)),
+  reaction: one(object<ReactionPayload>({ senderId: str, emoji: str })),
+  turnTimerChanged: one(turnTimerSettings),
+  turnTimedOut: one(
+    object<TurnTimedOutPayload>({
+      playerName: str,
+      action: timeoutAction,
+      number: nullable(num),
+    })
+  ),
+  moveRecorded: one(move),
+  lobbySettings: one(lobbySettings),
+  seriesResults: one(arrayOf(gameOverInfo)),
+  kicked: one(str),
+  lobbyList: one(arrayOf(lobbySummary)),
+  matchFound: one(str),
+};
+
+export const SERVER_EVENTS = Object.keys(validators) as ServerEvent[];
+
+/** Validates the raw arguments of a server event, throwing a ProtocolError on mismatch. */
+export function parseServerEvent<E extends ServerEvent>(
+  event: E,
+  args: unknown[]
+): Args<E> {
+  try {
+    return validators[event](args);
+  } catch (e) {
+    if (e instanceof Mismatch) {
+      throw new ProtocolError(event, e.path, e.expected, args[0]);
+    }
+    throw e;
+  }
+}
+
+type ClientEvent = keyof ClientToServerEvents;
+type ClientArgs<E extends ClientEvent> = Parameters<ClientToServerEvents[E]>;
+
+const optional =
+  <T>(check: Check<T>): Check<T | undefined> =>
+  (value, path) =>
+    value === undefined ? undefined : check(value, path);
+
+const callback: Check<() => void> = (value, path) => {
+  if (typeof value !== "function") throw new Mismatch(path, "function");
+  return value as () => void;
+};
+
+const none = (): [] => [];
+
+// The server's side of the same contract: what clients may send
+const clientValidators: {
+  [E in ClientEvent]: (args: unknown[]) => ClientArgs<E>;
+} = {
+  createLobby: one(
+    object<CreateLobbyRequest>({
+      boardSize: num,
+      variant: optional(gameVariant),
+      isPublic: optional(bool),
+    })
+  ),
+  joinLobby: one(
+    object<JoinLobbyRequest>({
+      code: str,
+      playerName: str,
+      token: str,
+      avatar: optional(str),
+      color: optional(str),
+    })
+  ),
+  rejoinLobby: one(object({ code: str, token: str })),
+  spectateLobby: one(object({ code: str, spectatorName: str })),
+  selectNumber: one(num),
+  startGame: none,
+  eliminateNumber: one(num),
+  playerReadyForReplay: none,
+  leaveLobby: none,
+  sendChatMessage: one(str),
+  sendReaction: one(str),
+  setTurnTimer: one(turnTimerSettings),
+  updateLobbySettings: one(
+    object<LobbySettingsUpdate>({
+      boardSize: optional(num),
+      maxPlayers: optional(num),
+      locked: optional(bool),
+      isPublic: optional(bool),
+      assistant: optional(bool),
+      seriesLength: optional(num),
+      tieBreak: optional(oneOf<TieBreak>(...TIE_BREAKS)),
+    })
+  ),
+  kickPlayer: one(str),
+  transferLeadership: one(str),
+  browseLobbies: none,
+  stopBrowsing: none,
+  quickMatch: one(object({ token: str })),
+  heartbeat: one(callback),
+};
+
+/** Whether `event` is one clients may send. */
+export function isClientEvent(event: string): event is ClientEvent {
+  return Object.prototype.hasOwnProperty.call(clientValidators, event);
+}
+
+/**
+ * Validates the raw arguments of a client event, throwing a ProtocolError on
+ * mismatch. Only known fields are kept.
+ */
+export function parseClientEvent<E extends ClientEvent>(
+  event: E,
+  args: unknown[]
+): ClientArgs<E> {
+  try {
+    return clientValidators[event](args);
+  } catch (e) {
+    if (e instanceof Mismatch) {
+      throw new ProtocolError(event, e.path, e.expected, args[0]);
+    }
+    throw e;
+  }
+}
+
+/**
+ * Validates a game record read from a file. Throws a ProtocolError when the
+ * shape is wrong or the record was written by an incompatible version.
+ */
+export function parseGameRecord(value: unknown): GameRecord {
+  try {
+    const record = gameRecord(value, "record");
+    if (record.version !== GAME_RECORD_VERSION) {
+      throw new Mismatch("record.version", String(GAME_RECORD_VERSION));
+    }
+    return record;
+  } catch (e) {
+    if (e instanceof Mismatch) {
+      throw new ProtocolError("gameRecord", e.path, e.expected, value);
+    }
+    throw e;
+  }
+}
+
+/**
+ * Hands a raw server event to its handler once the payload checks out.
+ * Events without a handler, or unknown to this client, are dropped.
+ */
+export function dispatchServerEvent(
+  handlers: Partial<ServerToClientEvents>,
+  event: string,
+  args: unknown[],
+  onProtocolError: (error: ProtocolError) => void
+) {
+  if (!Object.prototype.hasOwnProperty.call(validators, event)) return;
+  const handler = handlers[event as ServerEvent] as
+    | ((...args: unknown[]) => void)
+    | undefined;
+  if (!handler) return;
+  let parsed: unknown[];
+  try {
+    parsed = parseServerEvent(event as ServerEvent, args);
+  } catch (e) {
+    if (e instanceof ProtocolError) {
+      onProtocolError(e);
+      return;
+    }
+    throw e;
+  }
+  handler(...parsed);
+}
+
+/**
+ * Registers validated handlers for server events. Malformed payloads never
+ * reach the handler; they are reported through onProtocolError instead.
+ * Returns a function that removes every registered listener.
+ */
+export function subscribe(
+  socket: GameSocket,
+  handlers: Partial<ServerToClientEvents>,
+  onProtocolError: (error: ProtocolError) => void
+): () => void {
+  // The typed socket only accepts already-typed listeners, so register the
+  // raw ones on the untyped view of the same socket.
+  const raw = socket as unknown as Socket;
+  const listeners: [string, (...args: unknown[]) => void][] = [];
+
+  for (const event of Object.keys(handlers) as ServerEvent[]) {
+    const listener = (...args: unknown[]) =>
+      dispatchServerEvent(handlers, event, args, onProtocolError);
+    raw.on(event, listener);
+    listeners.push([event, listener]);
+  }
+
+  return () => {
+    for (const [event, listener] of listeners) raw.off(event, listener);
+  };
+}
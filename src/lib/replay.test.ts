@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { CLASSIC_VARIANT } from "./protocol";
+import {
+  createGameRecord,
+  readGameRecord,
+  serializeGameRecord,
+} from "./replay";
+
+const placements = [
+  { name: "Bob", seatId: "p2", number: 7, numbers: [7], placement: 1 },
+  { name: "Alice", seatId: "p1", number: 3, numbers: [3], placement: 2 },
+];
+
+// An exported game with some fields swapped for others
+const exported = (changes: object) =>
+  JSON.stringify({
+    ...createGameRecord(10, [], { placements }, CLASSIC_VARIANT),
+    ...changes,
+  });
+
+describe("importing a game record", () => {
+  test("reads back an exported game", () => {
+    const record = createGameRecord(10, [], { placements }, CLASSIC_VARIANT);
+    assert.deepEqual(readGameRecord(serializeGameRecord(record)), {
+      record,
+      error: null,
+    });
+  });
+
+  test("refuses a board no lobby could have", () => {
+    assert.equal(
+      readGameRecord(exported({ boardSize: 1e9 })).error,
+      "Invalid board size"
+    );
+    assert.equal(readGameRecord(exported({ boardSize: 15 })).record, null);
+  });
+
+  test("refuses rules no lobby could have", () => {
+    const variant = { ...CLASSIC_VARIANT, rangeStart: 1e9 };
+    const { record, error } = readGameRecord(exported({ variant }));
+    assert.equal(record, null);
+    assert.match(error ?? "", /board must start/);
+  });
+
+  test("refuses text that is not a record", () => {
+    assert.equal(readGameRecord("not json").record, null);
+  });
+});
@@ -0,0 +1,94 @@
+import { BOARD_SIZES, createBoard } from "./engine";
+import { GAME_RECORD_VERSION, parseGameRecord, ProtocolError } from "./protocol";
+import { variantError } from "./variants";
+import type {
+  GameOverInfo,
+  GameRecord,
+  GameVariant,
+  Move,
+  Placement,
+} from "./protocol";
+
+/** The board as it looked after the first `step` moves of a recorded game. */
+export interface ReplayFrame {
+  step: number;
+  numbers: number[];
+  /** The move that led to this frame; null before the first move. */
+  move: Move | null;
+  /** Everyone knocked out so far, in order. */
+  knockedOut: Placement[];
+  finished: boolean;
+}
+
+export function createGameRecord(
+  boardSize: number,
+  moves: Move[],
+  result: GameOverInfo,
+  variant: GameVariant,
+  playedAt = new Date()
+): GameRecord {
+  return {
+    version: GAME_RECORD_VERSION,
+    boardSize,
+    variant,
+    playedAt: playedAt.toISOString(),
+    moves,
+    placements: result.placements,
+  };
+}
+
+export function serializeGameRecord(record: GameRecord) {
+  return JSON.stringify(record, null, 2);
+}
+
+export function gameRecordFileName(record: GameRecord) {
+  return `game-${record.playedAt.slice(0, 10)}.json`;
+}
+
+/**
+ * Why a well-formed record can't be replayed, or null if it can. Records are
+ * held to the same limits as a lobby, so a doctored file can't ask for a
+ * board of a billion numbers.
+ */
+export function gameRecordError(record: GameRecord): string | null {
+  if (!BOARD_SIZES.includes(record.boardSize)) return "Invalid board size";
+  return variantError(record.variant);
+}
+
+/** An imported game, or why the file could not be replayed. */
+export type ReadGameRecord =
+  | { record: GameRecord; error: null }
+  | { record: null; error: string };
+
+/** Parses an exported game and checks that it can be replayed. */
+export function readGameRecord(text: string): ReadGameRecord {
+  try {
+    const record = parseGameRecord(JSON.parse(text));
+    const error = gameRecordError(record);
+    return error ? { record: null, error } : { record, error: null };
+  } catch (e) {
+    if (e instanceof SyntaxError || e instanceof ProtocolError) {
+      return { record: null, error: e.message };
+    }
+    throw e;
+  }
+}
+
+export function replayFrame(record: GameRecord, step: number): ReplayFrame {
+  const clamped = Math.min(Math.max(step, 0), record.moves.length);
+  const applied = record.moves.slice(0, clamped);
+  // Older records only know the number picked, not its neighbours
+  const eliminated = new Set(
+    applied.flatMap((m) =>
+      m.cleared.length > 0 ? m.cleared : m.number === null ? [] : [m.number]
+    )
+  );
+  const board = createBoard(record.boardSize, record.variant.rangeStart);
+  return {
+    step: clamped,
+    numbers: board.filter((n) => !eliminated.has(n)),
+    move: applied[applied.length - 1] ?? null,
+    knockedOut: applied.flatMap((m) => m.knockedOut),
+    finished: clamped === record.moves.length,
+  };
+}
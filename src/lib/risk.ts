@@ -0,0 +1,401 @@
+import { createBoard } from "./engine";
+import type { GameVariant, Move, Placement, Player } from "./protocol";
+import { numbersOf, placementNumbers } from "./variants";
+
+/**
+ * What the assistant may look at: the public board and the player's own
+ * numbers. Opponents' secrets are never used, even where the client has them.
+ */
+export interface RiskView {
+  /** Numbers still on the board. */
+  numbers: number[];
+  boardSize: number;
+  variant: GameVariant;
+  /** Everyone in seat order. */
+  players: Player[];
+  myId: string;
+}
+
+/** The assistant's estimate for eliminating one number. */
+export interface CandidateRisk {
+  number: number;
+  /** Chance that the move knocks out at least one opponent. */
+  knockoutChance: number;
+  /** Chance of finishing in each place; index 0 is 1st place. */
+  placementOdds: number[];
+  expectedPlacement: number;
+}
+
+// Roughly how many simulated turns one assessment may play; the number of
+// games per candidate shrinks as boards get bigger, down to MIN_SAMPLES
+const SIMULATION_BUDGET = 400_000;
+const MIN_SAMPLES = 20;
+const MAX_SAMPLES = 300;
+// How long the simulation may hold the main thread at a time, in milliseconds
+const SLICE_TIME = 8;
+
+interface SimSeat {
+  isMe: boolean;
+  picks: number[];
+  isEliminated: boolean;
+  placement: number | null;
+}
+
+type Random = () => number;
+
+/** Work that can pause at every `yield`; see `inSlices`. */
+type Steps<T> = Generator<void, T, void>;
+
+/**
+ * Runs `steps` a few milliseconds at a time, so the page keeps responding
+ * while a long simulation runs. Resolves null once `signal` is aborted.
+ */
+function inSlices<T>(steps: Steps<T>, signal: AbortSignal): Promise<T | null> {
+  return new Promise((resolve) => {
+    const slice = () => {
+      if (signal.aborted) return resolve(null);
+      const end = performance.now() + SLICE_TIME;
+      let step = steps.next();
+      while (!step.done && performance.now() < end) step = steps.next();
+      if (step.done) resolve(step.value);
+      else setTimeout(slice, 0);
+    };
+    setTimeout(slice, 0);
+  });
+}
+
+const randomItem = <T>(items: T[], random: Random) =>
+  items[Math.floor(random() * items.length)];
+
+// Numbers still on the board, with constant-time removal
+class Remaining {
+  private readonly items: number[];
+  private readonly index = new Map<number, number>();
+
+  constructor(numbers: number[]) {
+    this.items = [...numbers];
+    this.items.forEach((n, i) => this.index.set(n, i));
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  has(n: number) {
+    return this.index.has(n);
+  }
+
+  remove(n: number) {
+    const i = this.index.get(n);
+    if (i === undefined) return;
+    const last = this.items.pop()!;
+    this.index.delete(n);
+    if (i < this.items.length) {
+      this.items[i] = last;
+      this.index.set(last, i);
+    }
+  }
+
+  /** A random number not in `exclude`, or null if there is none. */
+  pickExcept(exclude: number[], random: Random): number | null {
+    // Rejection works well while `exclude` covers few of the numbers left
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const n = randomItem(this.items, random);
+      if (n !== undefined && !exclude.includes(n)) return n;
+    }
+    const legal = this.items.filter((n) => !exclude.includes(n));
+    return legal.length > 0 ? randomItem(legal, random) : null;
+  }
+}
+
+// Secret numbers for a surviving opponent: at least one is still on the board
+function guessPicks(
+  board: number[],
+  remaining: Remaining,
+  count: number,
+  random: Random
+): number[] {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const picks = new Set<number>();
+    while (picks.size < Math.min(count, board.length)) {
+      picks.add(randomItem(board, random));
+    }
+    if ([...picks].some((n) => remaining.has(n))) return [...picks];
+  }
+  const fallback = remaining.pickExcept([], random);
+  return fallback === null ? [] : [fallback];
+}
+
+function cleared(
+  number: number,
+  mover: SimSeat,
+  remaining: Remaining,
+  variant: GameVariant
+) {
+  // Neighbours never take out the mover's own numbers, as in the engine
+  return variant.neighbours
+    ? [number - 1, number, number + 1].filter(
+        (n) => remaining.has(n) && (n === number || !mover.picks.includes(n))
+      )
+    : [number];
+}
+
+/**
+ * Plays the game out from here with everyone eliminating at random, starting
+ * with `number` from the player. Returns whether that first move knocked
+ * anyone out, and where the player finished.
+ */
+function playOut(
+  seats: SimSeat[],
+  remaining: Remaining,
+  variant: GameVariant,
+  number: number,
+  random: Random
+) {
+  const total = seats.length;
+  const me = seats.findIndex((s) => s.isMe);
+  const nextPlacement = () => {
+    const out = seats.filter((s) => s.isEliminated).length;
+    return variant.lastSurvivor === "wins" ? total - out : out + 1;
+  };
+  const finished = () => {
+    const alive = seats.filter((s) => !s.isEliminated);
+    const stuck = alive.every((s) =>
+      s.picks
+        .filter((n) => remaining.has(n))
+        .every((n) => alive.every((other) => other.picks.includes(n)))
+    );
+    if (alive.length > 1 && !stuck) return false;
+    const placement = variant.lastSurvivor === "wins" ? 1 : total;
+    for (const seat of alive) {
+      seat.isEliminated = true;
+      seat.placement = placement;
+    }
+    return true;
+  };
+
+  let knockedOut = false;
+  let turn = me;
+  let move: number | null = number;
+  // Every turn removes a number, which bounds the game
+  const turns = remaining.size;
+  for (let guard = 0; guard < turns; guard++) {
+    const mover = seats[turn];
+    if (move !== null) {
+      for (const n of cleared(move, mover, remaining, variant)) {
+        remaining.remove(n);
+      }
+      const hit = seats.filter(
+        (s) => !s.isEliminated && s.picks.every((n) => !remaining.has(n))
+      );
+      for (const seat of hit) {
+        seat.placement = nextPlacement();
+        seat.isEliminated = true;
+      }
+      if (turn === me && guard === 0) knockedOut = hit.length > 0;
+    }
+    if (finished() || seats[me].isEliminated) break;
+    // As in the engine, a survivor left with only their own numbers sits out
+    const from = turn;
+    move = null;
+    for (let step = 1; step <= total && move === null; step++) {
+      turn = (from + step) % total;
+      if (!seats[turn].isEliminated) {
+        move = remaining.pickExcept(seats[turn].picks, random);
+      }
+    }
+    if (move === null) break;
+  }
+  return { knockedOut, placement: seats[me].placement ?? total };
+}
+
+/**
+ * Estimates, for every number the player may eliminate now, how likely it is
+ * to knock someone out and where the player would then finish. Opponents'
+ * secrets are guessed at random among what they could still have, and the
+ * rest of the game is played out with everyone choosing at random. Runs in
+ * slices off the render path; resolves null if `signal` aborts first.
+ */
+export function assessMoves(
+  view: RiskView,
+  signal: AbortSignal,
+  random: Random = Math.random
+): Promise<CandidateRisk[] | null> {
+  return inSlices(assessSteps(view, random, SIMULATION_BUDGET), signal);
+}
+
+// One step per candidate number
+function* assessSteps(
+  view: RiskView,
+  random: Random,
+  budget: number
+): Steps<CandidateRisk[]> {
+  const me = view.players.find((p) => p.id === view.myId);
+  if (!me || me.isEliminated) return [];
+  const myNumbers = numbersOf(me);
+  const candidates = view.numbers.filter((n) => !myNumbers.includes(n));
+  if (candidates.length === 0) return [];
+
+  const board = createBoard(view.boardSize, view.variant.rangeStart);
+  const total = view.players.length;
+  const samples = Math.max(
+    MIN_SAMPLES,
+    Math.min(
+      MAX_SAMPLES,
+      Math.floor(
+        budget / (candidates.length * view.numbers.length)
+      )
+    )
+  );
+
+  const risks: CandidateRisk[] = [];
+  for (const number of candidates) {
+    const counts = new Array<number>(total).fill(0);
+    let knockouts = 0;
+    for (let i = 0; i < samples; i++) {
+      const remaining = new Remaining(view.numbers);
+      const seats: SimSeat[] = view.players.map((p) => ({
+        isMe: p.id === view.myId,
+        picks: p.isEliminated
+          ? []
+          : p.id === view.myId
+          ? myNumbers
+          : guessPicks(board, remaining, view.variant.secretCount, random),
+        isEliminated: p.isEliminated,
+        placement: p.placement,
+      }));
+      const result = playOut(
+        seats,
+        remaining,
+        view.variant,
+        number,
+        random
+      );
+      if (result.knockedOut) knockouts++;
+      counts[Math.min(result.placement, total) - 1]++;
+    }
+    const placementOdds = counts.map((c) => c / samples);
+    risks.push({
+      number,
+      knockoutChance: knockouts / samples,
+      placementOdds,
+      expectedPlacement: placementOdds.reduce(
+        (sum, p, i) => sum + p * (i + 1),
+        0
+      ),
+    });
+    yield;
+  }
+  return risks;
+}
+
+/** The move with the best (lowest) expected placement. */
+export function bestMove(risks: CandidateRisk[]): CandidateRisk | null {
+  return risks.reduce<CandidateRisk | null>(
+    (best, risk) =>
+      !best || risk.expectedPlacement < best.expectedPlacement ? risk : best,
+    null
+  );
+}
+
+/** How one of the player's moves compares with the best one available. */
+export interface MoveReview {
+  move: Move;
+  chosen: CandidateRisk | null;
+  best: CandidateRisk | null;
+  /** Numbers that would have knocked someone out, given everyone's secrets. */
+  knockoutNumbers: number[];
+}
+
+/**
+ * Looks back at each of the player's moves in a finished game: what the
+ * assistant would have estimated then, and what the revealed secret numbers
+ * in `placements` show in hindsight. Runs in slices like `assessMoves`.
+ */
+export function reviewMoves(
+  moves: Move[],
+  players: Player[],
+  placements: Placement[],
+  myId: string,
+  boardSize: number,
+  variant: GameVariant,
+  signal: AbortSignal,
+  random: Random = Math.random
+): Promise<MoveReview[] | null> {
+  return inSlices(
+    reviewSteps(moves, players, placements, myId, boardSize, variant, random),
+    signal
+  );
+}
+
+function* reviewSteps(
+  moves: Move[],
+  players: Player[],
+  placements: Placement[],
+  myId: string,
+  boardSize: number,
+  variant: GameVariant,
+  random: Random
+): Steps<MoveReview[]> {
+  const me = players.find((p) => p.id === myId);
+  if (!me) return [];
+  const myNumbers = numbersOf(me);
+  let numbers = createBoard(boardSize, variant.rangeStart);
+  let out = new Map<string, number>();
+  const reviews: MoveReview[] = [];
+  // The whole review gets about the time of one live assessment
+  const myMoves = moves.filter((m) => m.seatId === me.seatId).length;
+  const budget = SIMULATION_BUDGET / Math.max(1, myMoves);
+
+  for (const move of moves) {
+    if (move.seatId === me.seatId && move.number !== null) {
+      const view: RiskView = {
+        numbers,
+        boardSize,
+        variant,
+        myId,
+        players: players.map((p) => ({
+          ...p,
+          isEliminated: out.has(p.seatId),
+          placement: out.get(p.seatId) ?? null,
+        })),
+      };
+      const risks = yield* assessSteps(view, random, budget);
+      const opponents = placements.filter(
+        (p) => p.seatId !== me.seatId && !out.has(p.seatId)
+      );
+      const before = numbers;
+      reviews.push({
+        move,
+        chosen: risks.find((r) => r.number === move.number) ?? null,
+        best: bestMove(risks),
+        knockoutNumbers: risks
+          .map((r) => r.number)
+          .filter((n) => {
+            const left = before.filter(
+              (m) =>
+                m !== n &&
+                !(variant.neighbours &&
+                  Math.abs(m - n) === 1 &&
+                  !myNumbers.includes(m))
+            );
+            return opponents.some((p) =>
+              placementNumbers(p).every((m) => !left.includes(m))
+            );
+          }),
+      });
+    }
+    const cleared =
+      move.cleared.length > 0
+        ? move.cleared
+        : move.number !== null
+        ? [move.number]
+        : [];
+    numbers = numbers.filter((n) => !cleared.includes(n));
+    out = new Map([
+      ...out,
+      ...move.knockedOut.map((p) => [p.seatId, p.placement] as const),
+    ]);
+  }
+  return reviews;
+}
@@ -0,0 +1,113 @@
+import type { Translator } from "./i18n";
+import type { GameOverInfo, TieBreak } from "./protocol";
+
+/** One player's running total in a series. */
+export interface Standing {
+  seatId: string;
+  /** As of the player's latest game in the series. */
+  name: string;
+  points: number;
+  /** Games finished in first place. */
+  wins: number;
+  /** Placement in each game so far, null for games the player missed. */
+  finishes: (number | null)[];
+  /** 1 for the leader; players still level after the tie-break share it. */
+  rank: number;
+}
+
+/** A game's points: the player count minus the placement; last gets none. */
+export function pointsFor(placement: number, totalPlayers: number) {
+  return totalPlayers - placement;
+}
+
+// Sorts a missed game below any finish
+const finishOrder = (finish: number | null) =>
+  finish ?? Number.MAX_SAFE_INTEGER;
+
+const TIE_BREAKERS: Record<TieBreak, (a: Standing, b: Standing) => number> = {
+  wins: (a, b) => b.wins - a.wins,
+  latest: (a, b) => {
+    for (let i = a.finishes.length - 1; i >= 0; i--) {
+      const diff = finishOrder(a.finishes[i]) - finishOrder(b.finishes[i]);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  },
+  shared: () => 0,
+};
+
+/** Everyone who played a game of the series, leader first. */
+export function seriesStandings(
+  games: GameOverInfo[],
+  tieBreak: TieBreak
+): Standing[] {
+  const bySeat = new Map<string, Standing>();
+  games.forEach((game, index) => {
+    const totalPlayers = game.placements.length;
+    for (const { seatId, name, placement } of game.placements) {
+      let standing = bySeat.get(seatId);
+      if (!standing) {
+        standing = {
+          seatId,
+          name,
+          points: 0,
+          wins: 0,
+          finishes: games.map(() => null),
+          rank: 0,
+        };
+        bySeat.set(seatId, standing);
+      }
+      standing.name = name;
+      standing.points += pointsFor(placement, totalPlayers);
+      if (placement === 1) standing.wins++;
+      standing.finishes[index] = placement;
+    }
+  });
+
+  const compare = (a: Standing, b: Standing) =>
+    b.points - a.points || TIE_BREAKERS[tieBreak](a, b);
+  const sorted = [...bySeat.values()].sort(compare);
+  return sorted.map((standing) => ({
+    ...standing,
+    rank: 1 + sorted.filter((other) => compare(other, standing) < 0).length,
+  }));
+}
+
+/** Whether every game of the series has been played. */
+export function isSeriesOver(games: GameOverInfo[], seriesLength: number) {
+  return seriesLength > 1 && games.length >= seriesLength;
+}
+
+// Quotes a cell that would otherwise break the row apart
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** The standings as a spreadsheet, one row per player and a column per game. */
+export function seriesCsv(
+  standings: Standing[],
+  seriesLength: number,
+  { t }: Translator
+) {
+  const games = Array.from({ length: seriesLength }, (_, i) => i + 1);
+  const header = [
+    t("series.rank"),
+    t("series.player"),
+    t("series.points"),
+    t("series.wins"),
+    ...games.map((number) => t("series.game", { number })),
+  ];
+  const rows = standings.map((s) => [
+    s.rank,
+    s.name,
+    s.points,
+    s.wins,
+    ...games.map((_, i) => s.finishes[i] ?? ""),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+export function seriesFileName(playedAt = new Date()) {
+  return `series-${playedAt.toISOString().slice(0, 10)}.csv`;
+}
@@ -0,0 +1,102 @@
+export const DEFAULT_BACKEND_URL = "https://streg-backend.onrender.com";
+// Where the deployed site lists its servers; editable without a rebuild
+const SERVER_LIST_URL = "/servers.json";
+// A server slower than this to answer counts as unreachable, e.g. asleep
+const PROBE_TIMEOUT = 4000;
+
+export interface ServerInfo {
+  name: string;
+  url: string;
+}
+
+/** A server and how quickly it answered, once probed. */
+export interface ServerProbe extends ServerInfo {
+  status: "probing" | "reachable" | "unreachable";
+  /** Round trip in milliseconds; null unless reachable. */
+  latency: number | null;
+}
+
+function isServerInfo(value: unknown): value is ServerInfo {
+  const info = value as ServerInfo | null;
+  return typeof info?.name === "string" && typeof info?.url === "string";
+}
+
+/**
+ * The servers the player can choose from. NEXT_PUBLIC_BACKEND_URL pins a
+ * single one, e.g. the local stand-in server; otherwise the list is fetched
+ * from servers.json, falling back to the hosted backend.
+ */
+export async function loadServerList(): Promise<ServerInfo[]> {
+  const pinned = process.env.NEXT_PUBLIC_BACKEND_URL;
+  if (pinned) return [{ name: "Configured server", url: pinned }];
+  try {
+    const response = await fetch(SERVER_LIST_URL);
+    if (response.ok) {
+      const list: unknown = await response.json();
+      if (Array.isArray(list) && list.length > 0 && list.every(isServerInfo)) {
+        return list;
+      }
+    }
+  } catch {
+    // Offline or no list deployed; use the built-in server
+  }
+  return [{ name: "Default server", url: DEFAULT_BACKEND_URL }];
+}
+
+/** Milliseconds for a socket.io handshake with `url`, or null if it fails. */
+export async function measureLatency(url: string): Promise<number | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(
+      `${url.replace(/\/$/, "")}/socket.io/?EIO=4&transport=polling`,
+      { signal: controller.signal, cache: "no-store" }
+    );
+    return response.ok ? Math.round(performance.now() - startedAt) : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Probes every server at once, reporting each result as it comes in. */
+export async function probeServers(
+  servers: ServerInfo[],
+  onUpdate: (probes: ServerProbe[]) => void
+): Promise<ServerProbe[]> {
+  let probes: ServerProbe[] = servers.map((server) => ({
+    ...server,
+    status: "probing",
+    latency: null,
+  }));
+  onUpdate(probes);
+  await Promise.all(
+    servers.map(async (server) => {
+      const latency = await measureLatency(server.url);
+      probes = probes.map((probe) =>
+        probe.url === server.url
+          ? {
+              ...probe,
+              status: latency === null ? "unreachable" : "reachable",
+              latency,
+            }
+          : probe
+      );
+      onUpdate(probes);
+    })
+  );
+  return probes;
+}
+
+/**
+ * The reachable server with the lowest latency. When none answered in time
+ * the first one is used anyway, since a sleeping server wakes up eventually.
+ */
+export function fastestServer(probes: ServerProbe[]): string | null {
+  const reachable = probes
+    .filter((probe) => probe.latency !== null)
+    .sort((a, b) => a.latency! - b.latency!);
+  return (reachable[0] ?? probes[0])?.url ?? null;
+}
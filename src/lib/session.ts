@@ -0,0 +1,114 @@
+const STORAGE_KEY = "streg.session";
+const TOKEN_KEY = "streg.playerToken";
+
+/**
+ * What the client needs to reclaim its seat after a refresh or a dropped
+ * connection. The token is the player's identity towards the server; the
+ * socket id changes on every reconnect.
+ */
+export interface Session {
+  token: string;
+  lobbyCode: string;
+  playerName: string;
+}
+
+/**
+ * Where a client keeps its token and session. Each transport brings its own,
+ * so that clients sharing a browser are one player or several as needed.
+ */
+export interface Identity {
+  /** The player's token, created and stored on first use. */
+  getPlayerToken(): string;
+  loadSession(): Session | null;
+  saveSession(session: Session): void;
+  clearSession(): void;
+}
+
+function createToken() {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function isSession(value: unknown): value is Session {
+  const s = value as Session;
+  return (
+    typeof s?.token === "string" &&
+    typeof s?.lobbyCode === "string" &&
+    typeof s?.playerName === "string"
+  );
+}
+
+/** An identity kept in web storage, e.g. `() => window.localStorage`. */
+export function storedIdentity(storage: () => Storage): Identity {
+  return {
+    getPlayerToken() {
+      try {
+        const existing = storage().getItem(TOKEN_KEY);
+        if (existing) return existing;
+      } catch {
+        // Fall through and hand out an unpersisted token
+      }
+      const token = createToken();
+      try {
+        storage().setItem(TOKEN_KEY, token);
+      } catch {
+        // Ignore
+      }
+      return token;
+    },
+
+    loadSession() {
+      if (typeof window === "undefined") return null;
+      try {
+        const raw = storage().getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        return isSession(parsed) ? parsed : null;
+      } catch {
+        // Corrupt or inaccessible storage; treat as no session
+        return null;
+      }
+    },
+
+    saveSession(session) {
+      try {
+        storage().setItem(STORAGE_KEY, JSON.stringify(session));
+      } catch {
+        // Storage may be full or disabled (private mode); resume just won't work
+      }
+    },
+
+    clearSession() {
+      try {
+        storage().removeItem(STORAGE_KEY);
+      } catch {
+        // Ignore
+      }
+    },
+  };
+}
+
+/**
+ * Shared by every tab of the browser, so a refresh or a second tab takes the
+ * seat back. Right for a server, where one browser is one player.
+ */
+export const browserIdentity = storedIdentity(() => window.localStorage);
+
+/** Survives a refresh of this tab only, so every tab is its own player. */
+export const tabIdentity = storedIdentity(() => window.sessionStorage);
+
+/** Forgotten with the client, so each client is its own player. */
+export function memoryIdentity(): Identity {
+  const token = createToken();
+  let session: Session | null = null;
+  return {
+    getPlayerToken: () => token,
+    loadSession: () => session,
+    saveSession: (next) => {
+      session = next;
+    },
+    clearSession: () => {
+      session = null;
+    },
+  };
+}
@@ -0,0 +1,55 @@
+const STORAGE_KEY = "streg.settings";
+
+/** Things worth telling a player who has switched to another tab. */
+export const NOTIFY_EVENTS = ["turn", "eliminated", "gameOver"] as const;
+export type NotifyEvent = (typeof NOTIFY_EVENTS)[number];
+
+/** Preferences that stay with this browser across games and visits. */
+export interface Settings {
+  /** Server picked by hand; null connects to the fastest one. */
+  serverUrl: string | null;
+  /** Stronger colours, outlines and focus rings throughout. */
+  highContrast: boolean;
+  /** Events to alert about while the tab is in the background; all opt-in. */
+  notifications: Record<NotifyEvent, boolean>;
+}
+
+export const defaultSettings: Settings = {
+  serverUrl: null,
+  highContrast: false,
+  notifications: { turn: false, eliminated: false, gameOver: false },
+};
+
+export function loadSettings(): Settings {
+  if (typeof window === "undefined") return defaultSettings;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaultSettings;
+    const parsed = JSON.parse(raw);
+    return {
+      serverUrl:
+        typeof parsed?.serverUrl === "string" ? parsed.serverUrl : null,
+      highContrast: parsed?.highContrast === true,
+      notifications: Object.fromEntries(
+        NOTIFY_EVENTS.map((event) => [
+          event,
+          parsed?.notifications?.[event] === true,
+        ])
+      ) as Record<NotifyEvent, boolean>,
+    };
+  } catch {
+    // Corrupt or inaccessible storage; fall back to the defaults
+    return defaultSettings;
+  }
+}
+
+/** Stores `changes` on top of the current settings and returns the result. */
+export function saveSettings(changes: Partial<Settings>): Settings {
+  const settings = { ...loadSettings(), ...changes };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage may be full or disabled (private mode); the change lasts this visit
+  }
+  return settings;
+}
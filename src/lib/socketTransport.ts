@@ -0,0 +1,127 @@
+import { io } from "socket.io-client";
+import { subscribe } from "./protocol";
+import type { ClientToServerEvents, GameSocket } from "./protocol";
+import {
+  fastestServer,
+  loadServerList,
+  probeServers,
+  ServerInfo,
+} from "./servers";
+import { browserIdentity } from "./session";
+import type { Transport, TransportListeners } from "./transport";
+
+const HEARTBEAT_INTERVAL = 10_000;
+// A heartbeat unanswered for this long reports the latency as unknown
+const HEARTBEAT_TIMEOUT = 5000;
+
+export interface SocketTransportOptions {
+  /** Server picked by hand; ignored unless it is on the server list. */
+  serverUrl?: string | null;
+  loadServers?: () => Promise<ServerInfo[]>;
+}
+
+type QueuedEmit = {
+  [E in keyof ClientToServerEvents]: [E, Parameters<ClientToServerEvents[E]>];
+}[keyof ClientToServerEvents];
+
+/**
+ * The hosted backend, or the bundled stand-in server, over socket.io. When
+ * several servers are listed it probes them all and connects to the fastest.
+ */
+export class SocketTransport implements Transport {
+  private socket: GameSocket | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private closed = false;
+  // Sent once a server has been picked and the socket exists
+  private queued: QueuedEmit[] = [];
+  readonly identity = browserIdentity;
+
+  constructor(private readonly options: SocketTransportOptions = {}) {}
+
+  get id() {
+    return this.socket?.id;
+  }
+
+  open(listeners: TransportListeners) {
+    void this.connect(listeners);
+  }
+
+  emit<E extends keyof ClientToServerEvents>(
+    event: E,
+    ...args: Parameters<ClientToServerEvents[E]>
+  ) {
+    if (this.socket) this.socket.emit(event, ...args);
+    else if (!this.closed) this.queued.push([event, args] as QueuedEmit);
+  }
+
+  close() {
+    this.closed = true;
+    this.queued = [];
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.unsubscribe?.();
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private async connect(listeners: TransportListeners) {
+    const url = await this.pickServer(listeners);
+    if (this.closed) return;
+    listeners.onServerSelected(url);
+
+    const socket: GameSocket = io(url);
+    this.socket = socket;
+    socket.on("connect", () => {
+      listeners.onConnect(socket.id ?? "");
+      this.measureLatency(listeners);
+    });
+    socket.on("connect_error", () => listeners.onConnectError());
+    socket.on("disconnect", (reason) => {
+      // A manual close means we are leaving; anything else will auto-reconnect
+      if (reason !== "io client disconnect") listeners.onDisconnect();
+    });
+    this.unsubscribe = subscribe(
+      socket,
+      listeners.handlers,
+      listeners.onProtocolError
+    );
+    this.heartbeat = setInterval(
+      () => this.measureLatency(listeners),
+      HEARTBEAT_INTERVAL
+    );
+
+    for (const [event, args] of this.queued) {
+      (socket.emit as (event: string, ...args: unknown[]) => void)(
+        event,
+        ...args
+      );
+    }
+    this.queued = [];
+  }
+
+  private async pickServer(listeners: TransportListeners) {
+    const servers = await (this.options.loadServers ?? loadServerList)();
+    // Probe even when the choice is made, so the server list shows latencies
+    const probing =
+      servers.length > 1
+        ? probeServers(servers, (probes) => {
+            if (!this.closed) listeners.onServers(probes);
+          })
+        : null;
+    const chosen = servers.find((s) => s.url === this.options.serverUrl);
+    if (chosen) return chosen.url;
+    if (!probing) return servers[0].url;
+    return fastestServer(await probing) ?? servers[0].url;
+  }
+
+  private measureLatency(listeners: TransportListeners) {
+    const socket = this.socket;
+    if (!socket?.connected) return;
+    const sentAt = performance.now();
+    // Backends that predate heartbeats never answer; that just reads as unknown
+    socket.timeout(HEARTBEAT_TIMEOUT).emit("heartbeat", (err: Error | null) => {
+      if (this.socket !== socket) return;
+      listeners.onLatency(err ? null : Math.round(performance.now() - sentAt));
+    });
+  }
+}
@@ -0,0 +1,181 @@
+import { GameState, mySeatId } from "./gameReducer";
+import type { Placement } from "./protocol";
+
+const STORAGE_KEY = "streg.history";
+// Oldest games are dropped beyond this, to stay well inside storage quotas
+const MAX_GAMES = 500;
+/** Opponents need this many shared games to show up in head-to-head. */
+export const HEAD_TO_HEAD_MIN_GAMES = 2;
+
+/** A finished game as seen by this browser's player. */
+export interface GameSummary {
+  /** Identifies the game, so a rejoin on the game-over screen isn't counted twice. */
+  id: string;
+  playedAt: string;
+  mode: "online" | "bots";
+  lobbySize: number;
+  boardSize: number;
+  myNumber: number;
+  myPlacement: number;
+  opponents: Placement[];
+}
+
+export interface HeadToHead {
+  name: string;
+  games: number;
+  /** Games where I placed better than them. */
+  wins: number;
+  losses: number;
+}
+
+export interface Stats {
+  gamesPlayed: number;
+  averagePlacement: number;
+  winRate: number;
+  lastPlaceRate: number;
+  favouriteNumbers: { number: number; count: number }[];
+  headToHead: HeadToHead[];
+  /** Per game, oldest first: 0 is first place and 1 is last. */
+  trend: { playedAt: string; score: number }[];
+}
+
+function isPlacement(value: unknown): value is Placement {
+  const p = value as Placement;
+  return (
+    typeof p?.name === "string" &&
+    typeof p?.number === "number" &&
+    typeof p?.placement === "number"
+  );
+}
+
+function isGameSummary(value: unknown): value is GameSummary {
+  const g = value as GameSummary;
+  return (
+    typeof g?.id === "string" &&
+    typeof g?.playedAt === "string" &&
+    (g?.mode === "online" || g?.mode === "bots") &&
+    typeof g?.lobbySize === "number" &&
+    typeof g?.boardSize === "number" &&
+    typeof g?.myNumber === "number" &&
+    typeof g?.myPlacement === "number" &&
+    Array.isArray(g?.opponents) &&
+    g.opponents.every(isPlacement)
+  );
+}
+
+/** Every recorded game, oldest first. Malformed entries are skipped. */
+export function loadHistory(): GameSummary[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isGameSummary) : [];
+  } catch {
+    // Corrupt or inaccessible storage; start over
+    return [];
+  }
+}
+
+export function recordGame(game: GameSummary) {
+  const history = loadHistory();
+  if (history.some((g) => g.id === game.id)) return;
+  try {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([...history, game].slice(-MAX_GAMES))
+    );
+  } catch {
+    // Storage may be full or disabled; the game just won't count
+  }
+}
+
+export function clearHistory() {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Ignore
+  }
+}
+
+/** A fresh id for a game that has just been seen running. */
+export function createGameId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Summarises the finished game in `state`; null if we didn't play in it, or
+ * only came back once it was over and so most likely counted it already.
+ */
+export function summarizeGame(
+  state: GameState,
+  playedAt = new Date()
+): GameSummary | null {
+  const placements = state.gameOverInfo?.placements;
+  // A shared device has no single "me" to keep stats for
+  if (
+    !placements ||
+    !state.gameId ||
+    state.role !== "player" ||
+    state.mode === "hotseat"
+  ) {
+    return null;
+  }
+  const seatId = mySeatId(state);
+  const me = placements.find((p) => p.seatId === seatId);
+  if (!me) return null;
+  return {
+    id: state.gameId,
+    playedAt: playedAt.toISOString(),
+    mode: state.mode,
+    lobbySize: placements.length,
+    boardSize: state.boardSize,
+    myNumber: me.number,
+    myPlacement: me.placement,
+    opponents: placements.filter((p) => p !== me),
+  };
+}
+
+export function computeStats(history: GameSummary[]): Stats {
+  const gamesPlayed = history.length;
+  const share = (count: number) => (gamesPlayed ? count / gamesPlayed : 0);
+
+  const numberCounts = new Map<number, number>();
+  const rivals = new Map<string, HeadToHead>();
+  for (const game of history) {
+    numberCounts.set(game.myNumber, (numberCounts.get(game.myNumber) ?? 0) + 1);
+    for (const opponent of game.opponents) {
+      const rival = rivals.get(opponent.name) ?? {
+        name: opponent.name,
+        games: 0,
+        wins: 0,
+        losses: 0,
+      };
+      rival.games++;
+      if (game.myPlacement < opponent.placement) rival.wins++;
+      if (game.myPlacement > opponent.placement) rival.losses++;
+      rivals.set(opponent.name, rival);
+    }
+  }
+
+  return {
+    gamesPlayed,
+    averagePlacement: share(
+      history.reduce((sum, g) => sum + g.myPlacement, 0)
+    ),
+    winRate: share(history.filter((g) => g.myPlacement === 1).length),
+    lastPlaceRate: share(
+      history.filter((g) => g.myPlacement === g.lobbySize).length
+    ),
+    favouriteNumbers: [...numberCounts]
+      .map(([number, count]) => ({ number, count }))
+      .sort((a, b) => b.count - a.count || a.number - b.number)
+      .slice(0, 5),
+    headToHead: [...rivals.values()]
+      .filter((r) => r.games >= HEAD_TO_HEAD_MIN_GAMES)
+      .sort((a, b) => b.games - a.games || a.name.localeCompare(b.name)),
+    trend: history.map((g) => ({
+      playedAt: g.playedAt,
+      score: g.lobbySize > 1 ? (g.myPlacement - 1) / (g.lobbySize - 1) : 0,
+    })),
+  };
+}
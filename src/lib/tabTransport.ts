@@ -0,0 +1,153 @@
+import { createLobbyHub, LobbyHub } from "./hub";
+import { dispatchServerEvent } from "./protocol";
+import type { ClientToServerEvents } from "./protocol";
+import { tabIdentity } from "./session";
+import type { Transport, TransportListeners } from "./transport";
+
+export const TAB_CHANNEL = "streg-tabs";
+// How long a new tab waits for an existing host before hosting itself
+const HOST_ELECTION_DELAY = 300;
+
+type TabMessage =
+  | { type: "hello"; from: string }
+  | { type: "welcome"; from: string; to: string }
+  | { type: "emit"; from: string; to: string; event: string; args: unknown[] }
+  | { type: "event"; from: string; to: string; event: string; args: unknown[] }
+  | { type: "bye"; from: string; to: string }
+  | { type: "hostClosed"; from: string };
+
+/**
+ * Lets the tabs of one browser play together without a server. The first tab
+ * to open hosts the lobbies and every later tab joins it over a
+ * BroadcastChannel. When the host tab closes, the others elect a new host;
+ * games that were running there are lost.
+ */
+export class TabTransport implements Transport {
+  private readonly tabId = `tab-${crypto.randomUUID()}`;
+  // Every tab is a player of its own, whatever the others are doing
+  readonly identity = tabIdentity;
+  private channel: BroadcastChannel | null = null;
+  private listeners: TransportListeners | null = null;
+  private hostId: string | null = null;
+  private hub: LobbyHub | null = null;
+  private election: ReturnType<typeof setTimeout> | null = null;
+
+  get id() {
+    return this.hostId ? this.tabId : undefined;
+  }
+
+  open(listeners: TransportListeners) {
+    this.listeners = listeners;
+    this.channel = new BroadcastChannel(TAB_CHANNEL);
+    this.channel.onmessage = (e: MessageEvent<TabMessage>) =>
+      this.receive(e.data);
+    this.elect();
+  }
+
+  emit<E extends keyof ClientToServerEvents>(
+    event: E,
+    ...args: Parameters<ClientToServerEvents[E]>
+  ) {
+    if (!this.hostId) return;
+    if (this.hub) {
+      const copy = structuredClone(args);
+      const hub = this.hub;
+      queueMicrotask(() => hub.handle(this.tabId, event, copy));
+    } else {
+      this.post({ type: "emit", to: this.hostId, event, args });
+    }
+  }
+
+  close() {
+    if (this.election) clearTimeout(this.election);
+    if (this.hub) {
+      this.post({ type: "hostClosed" });
+      this.hub.dispose();
+      this.hub = null;
+    } else if (this.hostId) {
+      this.post({ type: "bye", to: this.hostId });
+    }
+    this.hostId = null;
+    this.listeners = null;
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  private elect() {
+    this.post({ type: "hello" });
+    this.election = setTimeout(() => {
+      this.election = null;
+      this.hub = createLobbyHub((id, event, ...args) =>
+        this.deliver(id, event, args)
+      );
+      this.connected(this.tabId);
+    }, HOST_ELECTION_DELAY);
+  }
+
+  private connected(hostId: string) {
+    this.hostId = hostId;
+    this.listeners?.onConnect(this.tabId);
+  }
+
+  private deliver(to: string, event: string, args: unknown[]) {
+    if (to !== this.tabId) {
+      this.post({ type: "event", to, event, args });
+      return;
+    }
+    const copy = structuredClone(args);
+    queueMicrotask(() => {
+      if (!this.listeners) return;
+      const { handlers, onProtocolError } = this.listeners;
+      dispatchServerEvent(handlers, event, copy, onProtocolError);
+    });
+  }
+
+  private receive(message: TabMessage) {
+    if (!this.listeners) return;
+    // Several tabs may host at once after a race; each only serves its own guests
+    const forMe = !("to" in message) || message.to === this.tabId;
+    if (!forMe) return;
+
+    switch (message.type) {
+      case "hello":
+        if (this.hub) this.post({ type: "welcome", to: message.from });
+        break;
+      case "welcome":
+        if (this.election) {
+          clearTimeout(this.election);
+          this.election = null;
+          this.connected(message.from);
+        }
+        break;
+      case "emit":
+        this.hub?.handle(message.from, message.event, message.args);
+        break;
+      case "bye":
+        this.hub?.disconnect(message.from);
+        break;
+      case "event":
+        if (message.from !== this.hostId) return;
+        dispatchServerEvent(
+          this.listeners.handlers,
+          message.event,
+          message.args,
+          this.listeners.onProtocolError
+        );
+        break;
+      case "hostClosed":
+        if (message.from !== this.hostId) return;
+        this.hostId = null;
+        this.listeners.onDisconnect();
+        this.elect();
+        break;
+    }
+  }
+
+  private post(message: DistributiveOmit<TabMessage, "from">) {
+    this.channel?.postMessage({ ...message, from: this.tabId });
+  }
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
@@ -0,0 +1,63 @@
+import type {
+  GameConnection,
+  ProtocolError,
+  ServerToClientEvents,
+} from "./protocol";
+import { MemoryTransport } from "./memoryTransport";
+import type { ServerProbe } from "./servers";
+import type { Identity } from "./session";
+import { loadSettings } from "./settings";
+import { SocketTransport } from "./socketTransport";
+import { TabTransport } from "./tabTransport";
+
+export interface TransportListeners {
+  /** Server events, already validated against the protocol. */
+  handlers: Partial<ServerToClientEvents>;
+  /** Called on every (re)connect with the connection id for this session. */
+  onConnect: (id: string) => void;
+  /** The connection dropped on its own; the transport tries to get it back. */
+  onDisconnect: () => void;
+  /** An attempt to (re)connect failed; the transport keeps trying. */
+  onConnectError: () => void;
+  /** Round trip to the backend in milliseconds, null if it didn't answer. */
+  onLatency: (latency: number | null) => void;
+  /** The servers to choose from and how they answered, as probing goes on. */
+  onServers: (probes: ServerProbe[]) => void;
+  /** The server this transport connects to. */
+  onServerSelected: (url: string) => void;
+  onProtocolError: (error: ProtocolError) => void;
+}
+
+/**
+ * How the UI reaches a backend. Swapping the transport swaps where lobbies
+ * live: the hosted server, this tab, or another tab of the same browser.
+ */
+export interface Transport extends GameConnection {
+  /** Where this client keeps its player token and session. */
+  readonly identity: Identity;
+  /** Starts connecting; events arrive through `listeners` from then on. */
+  open(listeners: TransportListeners): void;
+  /** Disconnects for good; no listener is called afterwards. */
+  close(): void;
+}
+
+export type TransportKind = "socket" | "memory" | "tabs";
+
+/**
+ * The transport picked by NEXT_PUBLIC_TRANSPORT: "socket" (the default) talks
+ * to the server chosen in the settings or the fastest one, "memory" keeps
+ * lobbies inside this tab and "tabs" lets tabs of one browser play together
+ * without any server.
+ */
+export function createTransport(
+  kind = process.env.NEXT_PUBLIC_TRANSPORT as TransportKind | undefined
+): Transport {
+  switch (kind) {
+    case "memory":
+      return new MemoryTransport();
+    case "tabs":
+      return new TabTransport();
+    default:
+      return new SocketTransport({ serverUrl: loadSettings().serverUrl });
+  }
+}
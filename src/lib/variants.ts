@@ -0,0 +1,97 @@
+import { CLASSIC_VARIANT } from "./protocol";
+import type { Translator } from "./i18n";
+import type { GameVariant, Placement, Player } from "./protocol";
+
+export const MAX_SECRET_NUMBERS = 3;
+export const MAX_RANGE_START = 999;
+
+/** Why a variant can't be played, or null if it is fine. */
+export function variantError(variant: GameVariant): string | null {
+  const { lastSurvivor, secretCount, neighbours, rangeStart } = variant;
+  if (lastSurvivor !== "loses" && lastSurvivor !== "wins") {
+    return "Unknown rule for the last survivor";
+  }
+  if (
+    !Number.isInteger(secretCount) ||
+    secretCount < 1 ||
+    secretCount > MAX_SECRET_NUMBERS
+  ) {
+    return `Players can have 1 to ${MAX_SECRET_NUMBERS} secret numbers`;
+  }
+  if (typeof neighbours !== "boolean") return "Invalid neighbour rule";
+  if (
+    !Number.isInteger(rangeStart) ||
+    rangeStart < 0 ||
+    rangeStart > MAX_RANGE_START
+  ) {
+    return `The board must start between 0 and ${MAX_RANGE_START}`;
+  }
+  return null;
+}
+
+export function isClassic(variant: GameVariant) {
+  return (
+    variant.lastSurvivor === CLASSIC_VARIANT.lastSurvivor &&
+    variant.secretCount === CLASSIC_VARIANT.secretCount &&
+    variant.neighbours === CLASSIC_VARIANT.neighbours &&
+    variant.rangeStart === CLASSIC_VARIANT.rangeStart
+  );
+}
+
+export function lastNumber(variant: GameVariant, boardSize: number) {
+  return variant.rangeStart + boardSize - 1;
+}
+
+/** Short label for headers, e.g. "Last survivor wins · 2 numbers each". */
+export function describeVariant(
+  variant: GameVariant,
+  boardSize: number,
+  { t }: Translator
+) {
+  const parts: string[] = [];
+  if (variant.lastSurvivor === "wins") parts.push(t("rules.survivorWins"));
+  if (variant.secretCount > 1) {
+    parts.push(t("rules.numbersEach", { count: variant.secretCount }));
+  }
+  if (variant.neighbours) parts.push(t("rules.neighbours"));
+  if (variant.rangeStart !== CLASSIC_VARIANT.rangeStart) {
+    parts.push(
+      t("rules.range", {
+        first: variant.rangeStart,
+        last: lastNumber(variant, boardSize),
+      })
+    );
+  }
+  return parts.length > 0 ? parts.join(" · ") : t("rules.classic");
+}
+
+/** The How to Play text for a variant, one rule per entry. */
+export function variantRules(variant: GameVariant, { t }: Translator) {
+  const several = variant.secretCount > 1;
+  const secret = several
+    ? t("rules.pickMany", { count: variant.secretCount })
+    : t("rules.pickOne");
+  const eliminate = variant.neighbours
+    ? t("rules.eliminateNeighbours")
+    : t("rules.eliminate");
+  const out = several ? t("rules.outMany") : t("rules.outOne");
+  const result =
+    variant.lastSurvivor === "wins"
+      ? t("rules.survivorWinsResult", { out })
+      : t("rules.survivorLosesResult", { out });
+  return [secret, eliminate, result];
+}
+
+/** A player's secret numbers, also for servers that only send one. */
+export function numbersOf(player: Player) {
+  if (player.selectedNumbers.length > 0) return player.selectedNumbers;
+  return player.selectedNumber === null ? [] : [player.selectedNumber];
+}
+
+export function placementNumbers(placement: Placement) {
+  return placement.numbers.length > 0 ? placement.numbers : [placement.number];
+}
+
+export function hasPickedAll(player: Player, variant: GameVariant) {
+  return numbersOf(player).length >= variant.secretCount;
+}